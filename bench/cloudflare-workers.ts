@@ -0,0 +1,4 @@
+// Minimal stand-in for the `cloudflare:workers` module so the coordinator can run under Node
+export class DurableObject<Env = unknown> {
+	constructor(protected ctx: DurableObjectState, protected env: Env) {}
+}
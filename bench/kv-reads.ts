@@ -0,0 +1,151 @@
+/**
+ * Counts KV operations and Durable Object storage reads per proxied request as the account pool grows.
+ * Runs the real selection code against in-memory KV and Durable Object storage.
+ *
+ *   npm run bench:kv
+ */
+import { MultiAccountAuthManager } from '../src/multi-auth';
+import { AccountCoordinator } from '../src/coordinator';
+import { ACCOUNT_INDEX_CACHE_MS } from '../src/config';
+
+const POOL_SIZES = [10, 100, 1000, 5000];
+const REQUESTS = 50;
+const LIST_PAGE_SIZE = 1000;
+
+type Counts = Record<'get' | 'list' | 'put' | 'delete' | 'storageRead', number>;
+
+function createKV(counts: Counts): KVNamespace {
+	const data = new Map<string, { value: string; metadata?: unknown }>();
+	const kv = {
+		async get(key: string, type?: string) {
+			counts.get++;
+			const entry = data.get(key);
+			return entry ? (type === 'json' ? JSON.parse(entry.value) : entry.value) : null;
+		},
+		async put(key: string, value: string, options?: { metadata?: unknown }) {
+			counts.put++;
+			data.set(key, { value, metadata: options?.metadata });
+		},
+		async delete(key: string) {
+			counts.delete++;
+			data.delete(key);
+		},
+		async list({ prefix = '', cursor }: { prefix?: string; cursor?: string } = {}) {
+			counts.list++;
+			const names = [...data.keys()].filter(name => name.startsWith(prefix)).sort();
+			const start = cursor ? parseInt(cursor, 10) : 0;
+			const keys = names.slice(start, start + LIST_PAGE_SIZE).map(name => ({ name, metadata: data.get(name)!.metadata }));
+			const complete = start + LIST_PAGE_SIZE >= names.length;
+			return complete
+				? { keys, list_complete: true, cacheStatus: null }
+				: { keys, list_complete: false, cursor: String(start + LIST_PAGE_SIZE), cacheStatus: null };
+		}
+	};
+	return kv as unknown as KVNamespace;
+}
+
+// Storage reads are counted like Durable Object billing: one per key read or row listed
+function createCoordinatorNamespace(counts: Counts): DurableObjectNamespace<AccountCoordinator> {
+	const values = new Map<string, unknown>();
+	const storage = {
+		async get(keys: string | string[]) {
+			if (Array.isArray(keys)) {
+				counts.storageRead += keys.length;
+				return new Map(keys.filter(key => values.has(key)).map(key => [key, structuredClone(values.get(key))]));
+			}
+			counts.storageRead++;
+			return structuredClone(values.get(keys));
+		},
+		async put(key: string, value: unknown) {
+			values.set(key, structuredClone(value));
+		},
+		async delete(keys: string | string[]) {
+			for (const key of Array.isArray(keys) ? keys : [keys]) {
+				values.delete(key);
+			}
+		},
+		async list({ prefix }: { prefix: string }) {
+			const rows = new Map([...values].filter(([key]) => key.startsWith(prefix)));
+			counts.storageRead += Math.max(rows.size, 1);
+			return rows;
+		},
+		async getAlarm() {
+			return Date.now();
+		},
+		async setAlarm() {}
+	};
+	const coordinator = new AccountCoordinator({ storage } as unknown as DurableObjectState, {} as never);
+	return { idFromName: () => ({}), get: () => coordinator } as unknown as DurableObjectNamespace<AccountCoordinator>;
+}
+
+async function seedPool(kv: KVNamespace, size: number): Promise<void> {
+	for (let i = 0; i < size; i++) {
+		const credentials = {
+			access_token: `access-${i}`,
+			refresh_token: `refresh-${i}`,
+			scope: '',
+			token_type: 'Bearer',
+			id_token: '',
+			expiry_date: Date.now() + 6 * 60 * 60 * 1000
+		};
+		await kv.put(`ACCOUNT:account-${String(i).padStart(5, '0')}`, JSON.stringify(credentials), {
+			metadata: { expiry_date: credentials.expiry_date, kid: null }
+		});
+	}
+}
+
+// Move the clock past the index cache so each scenario starts cold
+const realNow = Date.now;
+let clockOffset = 0;
+Date.now = () => realNow() + clockOffset;
+
+async function run(mode: 'kv' | 'coordinator', size: number) {
+	const counts: Counts = { get: 0, list: 0, put: 0, delete: 0, storageRead: 0 };
+	const kv = createKV(counts);
+	await seedPool(kv, size);
+	clockOffset += ACCOUNT_INDEX_CACHE_MS + 1;
+
+	const env = { QWEN_TOKEN_CACHE: kv, ...(mode === 'coordinator' && { ACCOUNT_COORDINATOR: createCoordinatorNamespace(counts) }) };
+	const perRequest: Counts[] = [];
+
+	for (let i = 0; i < REQUESTS; i++) {
+		const before = { ...counts };
+		const authManager = new MultiAccountAuthManager(env as never);
+		await authManager.initializeAuth();
+		await authManager.recordAccountUsage(authManager.getCurrentAccountId()!, { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 });
+		perRequest.push({
+			get: counts.get - before.get,
+			list: counts.list - before.list,
+			put: counts.put - before.put,
+			delete: counts.delete - before.delete,
+			storageRead: counts.storageRead - before.storageRead
+		});
+	}
+
+	const [cold, ...warm] = perRequest;
+	const max = (key: keyof Counts) => Math.max(...warm.map(request => request[key]));
+	return {
+		mode,
+		accounts: size,
+		cold: `${cold.get} get / ${cold.list} list`,
+		warm_max: `${max('get')} get / ${max('list')} list`,
+		writes: max('put') + max('delete'),
+		do_reads_cold: cold.storageRead,
+		do_reads_warm_max: max('storageRead')
+	};
+}
+
+async function main() {
+	const log = console.log;
+	console.log = () => {}; // Silence per-request selection logs
+	const results = [];
+	for (const mode of ['kv', 'coordinator'] as const) {
+		for (const size of POOL_SIZES) {
+			results.push(await run(mode, size));
+		}
+	}
+	console.log = log;
+	console.table(results);
+}
+
+main();
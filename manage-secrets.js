@@ -52,7 +52,7 @@ function updateSecrets() {
   console.log('================================================\n');
 
   const env = loadEnvFile();
-  const secrets = ['OPENAI_API_KEYS', 'ADMIN_SECRET_KEY'];
+  const secrets = ['OPENAI_API_KEYS', 'ADMIN_SECRET_KEY', 'CREDENTIALS_ENCRYPTION_KEYS'];
   
   let updated = 0;
   let skipped = 0;
@@ -175,7 +175,12 @@ class SetupAccounts {
           const getCommand = `wrangler kv key get "ACCOUNT:${accountId}" --namespace-id="${kvNamespaceId}"`;
           const credsOutput = execSync(getCommand, { encoding: 'utf8' });
           const credentials = JSON.parse(credsOutput);
-          
+
+          // Encrypted at rest (CREDENTIALS_ENCRYPTION_KEYS); only the worker can read these
+          if (credentials.v === 1 && credentials.kid) {
+            throw new Error(`Credentials are encrypted with key '${credentials.kid}', use /admin/health instead`);
+          }
+
           // Check expiry
           const isExpired = credentials.expiry_date < Date.now();
           const expiryMinutes = Math.floor((credentials.expiry_date - Date.now()) / 60000);
@@ -0,0 +1,453 @@
+import {
+	AnthropicMessagesRequest,
+	AnthropicMessagesResponse,
+	AnthropicContentBlock,
+	AnthropicImageBlock,
+	AnthropicTextBlock,
+	AnthropicToolUseBlock,
+	AnthropicStopReason,
+	ChatCompletionRequest,
+	ChatCompletionResponse,
+	ChatCompletionStreamChunk,
+	ChatContent,
+	ChatMessage,
+	ToolCall,
+	ToolChoice
+} from '../types';
+import { readSSEEvents } from '../sse';
+import type { Logger } from '../logger';
+
+/**
+ * Converts between the Anthropic Messages API and the OpenAI chat format used by QwenAPIClient.
+ */
+
+/**
+ * Convert an Anthropic Messages request into an OpenAI chat completion request
+ */
+export function anthropicToChatRequest(request: AnthropicMessagesRequest): ChatCompletionRequest {
+	const messages: ChatMessage[] = [];
+
+	if (request.system) {
+		const system = typeof request.system === 'string'
+			? request.system
+			: request.system.map(block => block.text).join('\n');
+		if (system) {
+			messages.push({ role: 'system', content: system });
+		}
+	}
+
+	for (const message of request.messages) {
+		if (typeof message.content === 'string') {
+			messages.push({ role: message.role, content: message.content });
+			continue;
+		}
+
+		if (message.role === 'assistant') {
+			messages.push(convertAssistantBlocks(message.content));
+		} else {
+			messages.push(...convertUserBlocks(message.content));
+		}
+	}
+
+	const chatRequest: ChatCompletionRequest = {
+		model: request.model,
+		messages,
+		stream: request.stream,
+		max_tokens: request.max_tokens,
+		temperature: request.temperature,
+		top_p: request.top_p,
+		user: request.metadata?.user_id
+	};
+
+	if (request.tools && request.tools.length > 0) {
+		chatRequest.tools = request.tools.map(tool => ({
+			type: 'function',
+			function: {
+				name: tool.name,
+				description: tool.description,
+				parameters: tool.input_schema
+			}
+		}));
+	}
+
+	if (request.tool_choice) {
+		chatRequest.tool_choice = convertToolChoice(request.tool_choice);
+	}
+
+	if (request.stream) {
+		chatRequest.stream_options = { include_usage: true };
+	}
+
+	return chatRequest;
+}
+
+/**
+ * Assistant turns become a single message carrying text and tool calls
+ */
+function convertAssistantBlocks(blocks: AnthropicContentBlock[]): ChatMessage {
+	const text = blocks
+		.filter((block): block is AnthropicTextBlock => block.type === 'text')
+		.map(block => block.text)
+		.join('');
+
+	const toolCalls: ToolCall[] = blocks
+		.filter((block): block is AnthropicToolUseBlock => block.type === 'tool_use')
+		.map(block => ({
+			id: block.id,
+			type: 'function',
+			function: {
+				name: block.name,
+				arguments: JSON.stringify(block.input ?? {})
+			}
+		}));
+
+	const message: ChatMessage = { role: 'assistant', content: text };
+	if (toolCalls.length > 0) {
+		message.tool_calls = toolCalls;
+	}
+	return message;
+}
+
+/**
+ * User turns split into tool messages (one per tool_result) followed by the remaining content
+ */
+function convertUserBlocks(blocks: AnthropicContentBlock[]): ChatMessage[] {
+	const messages: ChatMessage[] = [];
+	const content: ChatContent[] = [];
+
+	for (const block of blocks) {
+		if (block.type === 'tool_result') {
+			const resultText = typeof block.content === 'string'
+				? block.content
+				: (block.content || [])
+					.filter((part): part is AnthropicTextBlock => part.type === 'text')
+					.map(part => part.text)
+					.join('\n');
+			messages.push({
+				role: 'tool',
+				tool_call_id: block.tool_use_id,
+				content: block.is_error ? `Error: ${resultText}` : resultText
+			});
+		} else if (block.type === 'text') {
+			content.push({ type: 'text', text: block.text });
+		} else if (block.type === 'image') {
+			content.push(convertImageBlock(block));
+		}
+	}
+
+	if (content.length > 0) {
+		const onlyText = content.every(part => part.type === 'text');
+		messages.push({
+			role: 'user',
+			content: onlyText ? content.map(part => part.text).join('\n') : content
+		});
+	}
+
+	return messages;
+}
+
+function convertImageBlock(block: AnthropicImageBlock): ChatContent {
+	const url = block.source.type === 'base64'
+		? `data:${block.source.media_type};base64,${block.source.data}`
+		: block.source.url;
+	return { type: 'image_url', image_url: { url } };
+}
+
+function convertToolChoice(choice: NonNullable<AnthropicMessagesRequest['tool_choice']>): ToolChoice {
+	switch (choice.type) {
+		case 'any':
+			return 'required';
+		case 'none':
+			return 'none';
+		case 'tool':
+			return { type: 'function', function: { name: choice.name } };
+		default:
+			return 'auto';
+	}
+}
+
+/**
+ * Map an OpenAI finish_reason onto an Anthropic stop_reason
+ */
+export function toAnthropicStopReason(finishReason: string | null | undefined): AnthropicStopReason {
+	switch (finishReason) {
+		case 'length':
+			return 'max_tokens';
+		case 'tool_calls':
+			return 'tool_use';
+		default:
+			return 'end_turn';
+	}
+}
+
+/**
+ * The earliest of `sequences` in `text`, if any
+ */
+function findStopSequence(text: string, sequences: string[]): { index: number; sequence: string } | null {
+	let found: { index: number; sequence: string } | null = null;
+	for (const sequence of sequences) {
+		const index = text.indexOf(sequence);
+		if (index !== -1 && (!found || index < found.index)) {
+			found = { index, sequence };
+		}
+	}
+	return found;
+}
+
+/**
+ * Matches stop_sequences in streamed text. The Qwen API doesn't say which sequence it stopped at,
+ * so they are matched here instead of being sent upstream. Text that could be the start of a
+ * sequence is held back until later deltas settle it.
+ */
+class StopSequenceMatcher {
+	private pending = '';
+	matched: string | null = null;
+
+	constructor(private sequences: string[]) {}
+
+	/**
+	 * Add a delta; returns the text that can be sent (after a match, nothing more)
+	 */
+	push(text: string): string {
+		if (this.matched !== null) {
+			return '';
+		}
+
+		this.pending += text;
+		const match = findStopSequence(this.pending, this.sequences);
+		if (match) {
+			this.matched = match.sequence;
+			const before = this.pending.substring(0, match.index);
+			this.pending = '';
+			return before;
+		}
+
+		const ready = this.pending.substring(0, this.pending.length - this.partialMatchLength());
+		this.pending = this.pending.substring(ready.length);
+		return ready;
+	}
+
+	/**
+	 * Text still held back once the stream has ended
+	 */
+	flush(): string {
+		const rest = this.pending;
+		this.pending = '';
+		return rest;
+	}
+
+	// Longest end of the pending text that begins some sequence
+	private partialMatchLength(): number {
+		let longest = 0;
+		for (const sequence of this.sequences) {
+			for (let length = Math.min(sequence.length - 1, this.pending.length); length > longest; length--) {
+				if (this.pending.endsWith(sequence.substring(0, length))) {
+					longest = length;
+					break;
+				}
+			}
+		}
+		return longest;
+	}
+}
+
+function parseToolArguments(args: string): Record<string, unknown> {
+	try {
+		return args ? JSON.parse(args) : {};
+	} catch {
+		return { raw: args };
+	}
+}
+
+/**
+ * Convert a non-streaming chat completion into an Anthropic message.
+ * The text is cut at the first of `stopSequences` (see StopSequenceMatcher).
+ */
+export function chatResponseToAnthropic(response: ChatCompletionResponse, model: string, stopSequences: string[] = []): AnthropicMessagesResponse {
+	const choice = response.choices[0];
+	const content: Array<AnthropicTextBlock | AnthropicToolUseBlock> = [];
+
+	let text = typeof choice?.message?.content === 'string'
+		? choice.message.content
+		: (choice?.message?.content || []).map(part => part.text || '').join('');
+	const stop = findStopSequence(text, stopSequences.filter(Boolean));
+	if (stop) {
+		text = text.substring(0, stop.index);
+	}
+	if (text) {
+		content.push({ type: 'text', text });
+	}
+
+	// Tool calls come after the text, so none were made before a stop sequence
+	for (const toolCall of stop ? [] : choice?.message?.tool_calls || []) {
+		content.push({
+			type: 'tool_use',
+			id: toolCall.id,
+			name: toolCall.function.name,
+			input: parseToolArguments(toolCall.function.arguments)
+		});
+	}
+
+	return {
+		id: `msg_${response.id.replace(/^chatcmpl-/, '')}`,
+		type: 'message',
+		role: 'assistant',
+		model: model || response.model,
+		content,
+		stop_reason: stop ? 'stop_sequence' : toAnthropicStopReason(choice?.finish_reason),
+		stop_sequence: stop?.sequence ?? null,
+		usage: {
+			input_tokens: response.usage?.prompt_tokens || 0,
+			output_tokens: response.usage?.completion_tokens || 0
+		}
+	};
+}
+
+/**
+ * Translate an OpenAI chat completion SSE stream into Anthropic's event stream.
+ * Text is streamed as it arrives. Tool call deltas for different calls can interleave upstream,
+ * while Anthropic content blocks are sequential, so each call's arguments are buffered and the
+ * tool_use blocks are sent once the upstream stream ends. Once one of `stopSequences` matches, the
+ * rest of the upstream stream is read for its usage but not sent.
+ */
+export function chatStreamToAnthropic(stream: ReadableStream, model: string, logger: Logger, stopSequences: string[] = []): ReadableStream {
+	const encoder = new TextEncoder();
+	const { readable, writable } = new TransformStream();
+	const writer = writable.getWriter();
+
+	const send = (event: string, data: Record<string, unknown>) =>
+		writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify({ type: event, ...data })}\n\n`));
+
+	(async () => {
+		const reader = stream.getReader();
+		const messageId = `msg_${crypto.randomUUID().replace(/-/g, '')}`;
+		let blockIndex = -1;
+		let textBlockOpen = false;
+		const toolCalls = new Map<number, { id: string; name: string; arguments: string }>(); // By OpenAI tool_call index
+		let stopReason: AnthropicStopReason = 'end_turn';
+		let usage = { input_tokens: 0, output_tokens: 0 };
+		const stopMatcher = new StopSequenceMatcher(stopSequences.filter(Boolean));
+
+		const sendText = async (text: string) => {
+			if (!text) {
+				return;
+			}
+			if (!textBlockOpen) {
+				blockIndex++;
+				textBlockOpen = true;
+				await send('content_block_start', { index: blockIndex, content_block: { type: 'text', text: '' } });
+			}
+			await send('content_block_delta', { index: blockIndex, delta: { type: 'text_delta', text } });
+		};
+
+		const closeTextBlock = async () => {
+			if (textBlockOpen) {
+				await send('content_block_stop', { index: blockIndex });
+				textBlockOpen = false;
+			}
+		};
+
+		const sendToolBlocks = async () => {
+			for (const [, toolCall] of [...toolCalls].sort(([a], [b]) => a - b)) {
+				blockIndex++;
+				await send('content_block_start', {
+					index: blockIndex,
+					content_block: { type: 'tool_use', id: toolCall.id, name: toolCall.name, input: {} }
+				});
+				if (toolCall.arguments) {
+					await send('content_block_delta', {
+						index: blockIndex,
+						delta: { type: 'input_json_delta', partial_json: toolCall.arguments }
+					});
+				}
+				await send('content_block_stop', { index: blockIndex });
+			}
+		};
+
+		try {
+			await send('message_start', {
+				message: {
+					id: messageId,
+					type: 'message',
+					role: 'assistant',
+					model,
+					content: [],
+					stop_reason: null,
+					stop_sequence: null,
+					usage
+				}
+			});
+
+			for await (const event of readSSEEvents(reader)) {
+				const data = event.data;
+				if (data === '[DONE]') continue;
+
+				const chunk = JSON.parse(data) as ChatCompletionStreamChunk & { error?: { message: string; type?: string } };
+
+				if (chunk.error) {
+					await closeTextBlock();
+					await send('error', { error: { type: 'api_error', message: chunk.error.message } });
+					await writer.close();
+					return;
+				}
+
+				if (chunk.usage) {
+					usage = { input_tokens: chunk.usage.prompt_tokens || 0, output_tokens: chunk.usage.completion_tokens || 0 };
+				}
+
+				const choice = chunk.choices?.[0];
+				if (!choice) continue;
+
+				if (choice.delta?.content) {
+					await sendText(stopMatcher.push(choice.delta.content));
+				}
+
+				// Nothing generated after a stop sequence is part of the message
+				for (const toolCall of (stopMatcher.matched === null ? choice.delta?.tool_calls || [] : [])) {
+					const toolIndex = toolCall.index ?? 0;
+					let buffered = toolCalls.get(toolIndex);
+					if (!buffered) {
+						buffered = { id: toolCall.id || `toolu_${crypto.randomUUID().replace(/-/g, '')}`, name: '', arguments: '' };
+						toolCalls.set(toolIndex, buffered);
+					}
+					if (toolCall.function?.name) {
+						buffered.name = toolCall.function.name;
+					}
+					buffered.arguments += toolCall.function?.arguments || '';
+				}
+
+				if (choice.finish_reason) {
+					stopReason = toAnthropicStopReason(choice.finish_reason);
+				}
+			}
+
+			await sendText(stopMatcher.flush());
+			await closeTextBlock();
+			await sendToolBlocks();
+			// Upstream reports usage only at the end, so message_start carries zeros and this has the counts
+			await send('message_delta', {
+				delta: {
+					stop_reason: stopMatcher.matched === null ? stopReason : 'stop_sequence',
+					stop_sequence: stopMatcher.matched
+				},
+				usage
+			});
+			await send('message_stop', {});
+			await writer.close();
+		} catch (error) {
+			logger.error('Error translating stream to Anthropic format', { error });
+			// Stop the upstream request if our client went away
+			await reader.cancel().catch(() => {});
+			try {
+				await send('error', {
+					error: { type: 'api_error', message: error instanceof Error ? error.message : 'Unknown error' }
+				});
+				await writer.close();
+			} catch (writeError) {
+				logger.error('Failed to write Anthropic error event', { error: writeError });
+			}
+		}
+	})();
+
+	return readable;
+}
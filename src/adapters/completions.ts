@@ -0,0 +1,185 @@
+import {
+	ChatCompletionRequest,
+	ChatCompletionResponse,
+	ChatCompletionStreamChunk,
+	ChatMessage,
+	CompletionChoice,
+	CompletionRequest,
+	CompletionResponse,
+	TokenUsage
+} from '../types';
+import { readSSEEvents } from '../sse';
+import type { Logger } from '../logger';
+import { DEFAULT_MODEL } from '../config';
+
+/**
+ * Maps the legacy text completions API onto chat completions for qwen3-coder models.
+ */
+
+const CONTINUATION_INSTRUCTIONS = 'You are a text completion engine. Continue the text provided by the user exactly where it stops. Output only the continuation, without repeating the input, explanations or markdown fences.';
+
+const FILL_IN_THE_MIDDLE_INSTRUCTIONS = 'You are a code completion engine. The user provides the code before and after a gap, marked with <|fim_prefix|>, <|fim_suffix|> and <|fim_middle|>. Output only the code that belongs in the gap, without repeating the surrounding code, explanations or markdown fences.';
+
+/**
+ * Convert a single prompt (with optional suffix) into chat messages
+ */
+export function promptToChatMessages(prompt: string, suffix?: string): ChatMessage[] {
+	if (suffix) {
+		return [
+			{ role: 'system', content: FILL_IN_THE_MIDDLE_INSTRUCTIONS },
+			{ role: 'user', content: `<|fim_prefix|>${prompt}<|fim_suffix|>${suffix}<|fim_middle|>` }
+		];
+	}
+
+	return [
+		{ role: 'system', content: CONTINUATION_INSTRUCTIONS },
+		{ role: 'user', content: prompt }
+	];
+}
+
+/**
+ * Build the chat completion request for one prompt of a completions call
+ */
+export function completionToChatRequest(request: CompletionRequest, prompt: string): ChatCompletionRequest {
+	const chatRequest: ChatCompletionRequest = {
+		model: request.model || DEFAULT_MODEL,
+		messages: promptToChatMessages(prompt, request.suffix),
+		stream: request.stream,
+		max_tokens: request.max_tokens,
+		temperature: request.temperature,
+		top_p: request.top_p,
+		n: request.n,
+		stop: request.stop,
+		seed: request.seed,
+		presence_penalty: request.presence_penalty,
+		frequency_penalty: request.frequency_penalty,
+		user: request.user
+	};
+
+	if (request.stream) {
+		chatRequest.stream_options = request.stream_options;
+	}
+
+	return chatRequest;
+}
+
+function toCompletionFinishReason(finishReason: string | null | undefined): CompletionChoice['finish_reason'] {
+	if (finishReason === 'length' || finishReason === 'content_filter') {
+		return finishReason;
+	}
+	return finishReason ? 'stop' : null;
+}
+
+/**
+ * Merge per-prompt chat completions into one text_completion object.
+ * Choice indexes follow OpenAI: prompt index * n + choice index.
+ */
+export function chatResponsesToCompletion(
+	completions: ChatCompletionResponse[],
+	prompts: string[],
+	request: CompletionRequest
+): CompletionResponse {
+	const choicesPerPrompt = request.n || 1;
+	const choices: CompletionChoice[] = [];
+	const usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+	completions.forEach((completion, promptIndex) => {
+		for (const choice of completion.choices) {
+			const content = typeof choice.message?.content === 'string' ? choice.message.content : '';
+			choices.push({
+				text: request.echo ? prompts[promptIndex] + content : content,
+				index: promptIndex * choicesPerPrompt + choice.index,
+				logprobs: null,
+				finish_reason: toCompletionFinishReason(choice.finish_reason)
+			});
+		}
+
+		usage.prompt_tokens += completion.usage?.prompt_tokens || 0;
+		usage.completion_tokens += completion.usage?.completion_tokens || 0;
+		usage.total_tokens += completion.usage?.total_tokens || 0;
+	});
+
+	return {
+		id: `cmpl-${crypto.randomUUID()}`,
+		object: 'text_completion',
+		created: completions[0]?.created || Math.floor(Date.now() / 1000),
+		model: completions[0]?.model || request.model,
+		choices,
+		usage
+	};
+}
+
+/**
+ * Translate a chat completion SSE stream into legacy text_completion chunks
+ */
+export function chatStreamToCompletion(stream: ReadableStream, request: CompletionRequest, prompt: string, logger: Logger): ReadableStream {
+	const encoder = new TextEncoder();
+	const { readable, writable } = new TransformStream();
+	const writer = writable.getWriter();
+	const id = `cmpl-${crypto.randomUUID()}`;
+	const created = Math.floor(Date.now() / 1000);
+
+	const send = (choices: CompletionChoice[], usage?: TokenUsage) =>
+		writer.write(encoder.encode(`data: ${JSON.stringify({
+			id,
+			object: 'text_completion',
+			created,
+			model: request.model,
+			choices,
+			...(usage && { usage })
+		})}\n\n`));
+
+	(async () => {
+		const reader = stream.getReader();
+
+		try {
+			if (request.echo) {
+				await send([{ text: prompt, index: 0, logprobs: null, finish_reason: null }]);
+			}
+
+			for await (const event of readSSEEvents(reader)) {
+				const data = event.data;
+				if (data === '[DONE]') continue;
+
+				const chunk = JSON.parse(data) as ChatCompletionStreamChunk & { error?: unknown };
+
+				// Error frames are already in OpenAI format, pass them through
+				if (chunk.error) {
+					await writer.write(encoder.encode(`data: ${data}\n\n`));
+					continue;
+				}
+
+				const choices = (chunk.choices || [])
+					.filter(choice => choice.delta?.content || choice.finish_reason)
+					.map(choice => ({
+						text: choice.delta?.content || '',
+						index: choice.index,
+						logprobs: null,
+						finish_reason: toCompletionFinishReason(choice.finish_reason)
+					}));
+
+				if (choices.length > 0 || chunk.usage) {
+					await send(choices, chunk.usage || undefined);
+				}
+			}
+
+			await writer.write(encoder.encode('data: [DONE]\n\n'));
+			await writer.close();
+		} catch (error) {
+			logger.error('Error translating stream to completions format', { error });
+			// Stop the upstream request if our client went away
+			await reader.cancel().catch(() => {});
+			try {
+				await writer.write(encoder.encode(`data: ${JSON.stringify({
+					error: { message: error instanceof Error ? error.message : 'Unknown error', type: 'stream_error' }
+				})}\n\n`));
+				await writer.write(encoder.encode('data: [DONE]\n\n'));
+				await writer.close();
+			} catch (writeError) {
+				logger.error('Failed to write completions error chunk', { error: writeError });
+			}
+		}
+	})();
+
+	return readable;
+}
@@ -0,0 +1,308 @@
+import {
+	ChatCompletionRequest,
+	ChatCompletionResponse,
+	ChatCompletionStreamChunk,
+	ChatContent,
+	ChatMessage,
+	ModelsResponse,
+	OllamaChatRequest,
+	OllamaGenerateRequest,
+	OllamaOptions,
+	ResponseFormat,
+	TokenUsage,
+	ToolCall
+} from '../types';
+import { readSSEEvents } from '../sse';
+import type { Logger } from '../logger';
+import { DEFAULT_MODEL } from '../config';
+import { promptToChatMessages } from './completions';
+
+/**
+ * Converts between Ollama's /api/chat and /api/generate formats and OpenAI chat completions.
+ */
+
+export type OllamaEndpoint = 'chat' | 'generate';
+
+/**
+ * Ollama clients often append a tag (e.g. qwen3-coder-plus:latest)
+ */
+export function normalizeOllamaModel(model: string | undefined): string {
+	return (model || DEFAULT_MODEL).replace(/:latest$/, '');
+}
+
+/**
+ * Whether a request only preloads the model: Ollama clients send an empty message list or prompt,
+ * which is answered without calling the Qwen API
+ */
+export function isOllamaLoadRequest(endpoint: OllamaEndpoint, body: Partial<OllamaChatRequest & OllamaGenerateRequest> | null): boolean {
+	if (endpoint === 'chat') {
+		return !Array.isArray(body?.messages) || body.messages.length === 0;
+	}
+	return !body?.prompt && !body?.suffix;
+}
+
+function optionsToChatParams(options: OllamaOptions | undefined, format: OllamaChatRequest['format']): Partial<ChatCompletionRequest> {
+	const params: Partial<ChatCompletionRequest> = {
+		temperature: options?.temperature,
+		top_p: options?.top_p,
+		max_tokens: options?.num_predict && options.num_predict > 0 ? options.num_predict : undefined,
+		stop: options?.stop,
+		seed: options?.seed,
+		presence_penalty: options?.presence_penalty,
+		frequency_penalty: options?.frequency_penalty
+	};
+
+	if (format === 'json') {
+		params.response_format = { type: 'json_object' };
+	} else if (format && typeof format === 'object') {
+		params.response_format = { type: 'json_schema', json_schema: { name: 'response', schema: format } } as ResponseFormat;
+	}
+
+	return params;
+}
+
+function withImages(text: string, images: string[] | undefined): string | ChatContent[] {
+	if (!images || images.length === 0) {
+		return text;
+	}
+	return [
+		{ type: 'text', text },
+		...images.map(image => ({ type: 'image_url' as const, image_url: { url: `data:image/png;base64,${image}` } }))
+	];
+}
+
+/**
+ * Convert an Ollama chat request into an OpenAI chat completion request
+ */
+export function ollamaChatToChatRequest(request: OllamaChatRequest): ChatCompletionRequest {
+	// Ollama tool calls have no IDs, so synthesize them and match tool results in order
+	const pendingCallIds: string[] = [];
+	let callCounter = 0;
+
+	const messages: ChatMessage[] = request.messages.map(message => {
+		if (message.role === 'assistant' && message.tool_calls?.length) {
+			const toolCalls: ToolCall[] = message.tool_calls.map(call => {
+				const id = `call_${callCounter++}`;
+				pendingCallIds.push(id);
+				return {
+					id,
+					type: 'function',
+					function: { name: call.function.name, arguments: JSON.stringify(call.function.arguments ?? {}) }
+				};
+			});
+			return { role: 'assistant', content: message.content || '', tool_calls: toolCalls };
+		}
+
+		if (message.role === 'tool') {
+			return { role: 'tool', content: message.content, tool_call_id: pendingCallIds.shift() || `call_${callCounter++}` };
+		}
+
+		return { role: message.role, content: withImages(message.content, message.images) };
+	});
+
+	return {
+		model: normalizeOllamaModel(request.model),
+		messages,
+		stream: request.stream !== false,
+		tools: request.tools,
+		...optionsToChatParams(request.options, request.format),
+		...(request.stream !== false && { stream_options: { include_usage: true } })
+	};
+}
+
+/**
+ * Convert an Ollama generate request into an OpenAI chat completion request
+ */
+export function ollamaGenerateToChatRequest(request: OllamaGenerateRequest): ChatCompletionRequest {
+	let messages: ChatMessage[];
+
+	if (request.suffix) {
+		messages = promptToChatMessages(request.prompt || '', request.suffix);
+	} else {
+		messages = [];
+		if (request.system) {
+			messages.push({ role: 'system', content: request.system });
+		}
+		messages.push({ role: 'user', content: withImages(request.prompt || '', request.images) });
+	}
+
+	return {
+		model: normalizeOllamaModel(request.model),
+		messages,
+		stream: request.stream !== false,
+		...optionsToChatParams(request.options, request.format),
+		...(request.stream !== false && { stream_options: { include_usage: true } })
+	};
+}
+
+function toDoneReason(finishReason: string | null | undefined): string {
+	return finishReason === 'length' ? 'length' : 'stop';
+}
+
+/**
+ * Timing and token count fields Ollama appends to the final message (durations in nanoseconds)
+ */
+function finalStats(startedAt: number, usage: TokenUsage | undefined) {
+	const totalDuration = (Date.now() - startedAt) * 1e6;
+	return {
+		total_duration: totalDuration,
+		load_duration: 0,
+		prompt_eval_count: usage?.prompt_tokens || 0,
+		prompt_eval_duration: 0,
+		eval_count: usage?.completion_tokens || 0,
+		eval_duration: totalDuration
+	};
+}
+
+function toOllamaToolCalls(toolCalls: ToolCall[]) {
+	return toolCalls.map(call => {
+		let args: Record<string, unknown>;
+		try {
+			args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+		} catch {
+			args = {};
+		}
+		return { function: { name: call.function.name, arguments: args } };
+	});
+}
+
+/**
+ * Convert a non-streaming chat completion into an Ollama chat or generate response
+ */
+export function chatResponseToOllama(
+	completion: ChatCompletionResponse,
+	model: string,
+	endpoint: OllamaEndpoint,
+	startedAt: number
+): Record<string, unknown> {
+	const choice = completion.choices[0];
+	const content = typeof choice?.message?.content === 'string' ? choice.message.content : '';
+	const base = { model, created_at: new Date().toISOString() };
+	const stats = { done: true, done_reason: toDoneReason(choice?.finish_reason), ...finalStats(startedAt, completion.usage) };
+
+	if (endpoint === 'generate') {
+		return { ...base, response: content, ...stats };
+	}
+
+	return {
+		...base,
+		message: {
+			role: 'assistant',
+			content,
+			...(choice?.message?.tool_calls?.length && { tool_calls: toOllamaToolCalls(choice.message.tool_calls) })
+		},
+		...stats
+	};
+}
+
+/**
+ * Translate an OpenAI chat completion SSE stream into Ollama's NDJSON stream
+ */
+export function chatStreamToOllama(
+	stream: ReadableStream,
+	model: string,
+	endpoint: OllamaEndpoint,
+	startedAt: number,
+	logger: Logger
+): ReadableStream {
+	const encoder = new TextEncoder();
+	const { readable, writable } = new TransformStream();
+	const writer = writable.getWriter();
+
+	const send = (data: Record<string, unknown>) =>
+		writer.write(encoder.encode(`${JSON.stringify({ model, created_at: new Date().toISOString(), ...data })}\n`));
+
+	const contentFields = (text: string, toolCalls?: ToolCall[]) => endpoint === 'generate'
+		? { response: text }
+		: { message: { role: 'assistant', content: text, ...(toolCalls && { tool_calls: toOllamaToolCalls(toolCalls) }) } };
+
+	(async () => {
+		const reader = stream.getReader();
+		let finishReason: string | null = null;
+		let usage: TokenUsage | undefined;
+		const toolCalls = new Map<number, ToolCall>();
+
+		try {
+			for await (const event of readSSEEvents(reader)) {
+				const data = event.data;
+				if (data === '[DONE]') continue;
+
+				const chunk = JSON.parse(data) as ChatCompletionStreamChunk & { error?: { message: string } };
+
+				if (chunk.error) {
+					throw new Error(chunk.error.message);
+				}
+				if (chunk.usage) {
+					usage = chunk.usage;
+				}
+
+				const choice = chunk.choices?.[0];
+				if (!choice) continue;
+
+				if (choice.delta?.content) {
+					await send({ ...contentFields(choice.delta.content), done: false });
+				}
+
+				for (const delta of (choice.delta?.tool_calls || [])) {
+					const index = delta.index ?? 0;
+					const existing = toolCalls.get(index);
+					if (!existing) {
+						toolCalls.set(index, {
+							id: delta.id || `call_${index}`,
+							type: 'function',
+							function: { name: delta.function?.name || '', arguments: delta.function?.arguments || '' }
+						});
+					} else {
+						existing.function.arguments += delta.function?.arguments || '';
+					}
+				}
+
+				if (choice.finish_reason) {
+					finishReason = choice.finish_reason;
+				}
+			}
+
+			// Ollama delivers tool calls as one complete message
+			if (endpoint === 'chat' && toolCalls.size > 0) {
+				await send({ ...contentFields('', [...toolCalls.values()]), done: false });
+			}
+
+			await send({ ...contentFields(''), done: true, done_reason: toDoneReason(finishReason), ...finalStats(startedAt, usage) });
+			await writer.close();
+		} catch (error) {
+			logger.error('Error translating stream to Ollama format', { error });
+			// Stop the upstream request if our client went away
+			await reader.cancel().catch(() => {});
+			try {
+				await writer.write(encoder.encode(`${JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' })}\n`));
+				await writer.close();
+			} catch (writeError) {
+				logger.error('Failed to write Ollama error line', { error: writeError });
+			}
+		}
+	})();
+
+	return readable;
+}
+
+/**
+ * Convert the model list into Ollama's /api/tags format
+ */
+export function modelsToOllamaTags(models: ModelsResponse) {
+	return {
+		models: models.data.map(model => ({
+			name: model.id,
+			model: model.id,
+			modified_at: new Date(model.created * 1000).toISOString(),
+			size: 0,
+			digest: model.id,
+			details: {
+				format: 'api',
+				family: model.owned_by,
+				families: [model.owned_by],
+				parameter_size: '',
+				quantization_level: ''
+			}
+		}))
+	};
+}
@@ -0,0 +1,421 @@
+import {
+	ChatCompletionRequest,
+	ChatCompletionResponse,
+	ChatCompletionStreamChunk,
+	ChatContent,
+	ChatMessage,
+	ResponseFormat,
+	ResponseInputItem,
+	ResponseObject,
+	ResponseOutputItem,
+	ResponsesRequest,
+	ToolCall,
+	ToolChoice
+} from '../types';
+import { readSSEEvents } from '../sse';
+import type { Logger } from '../logger';
+
+/**
+ * Converts between the OpenAI Responses API and the chat completion format used by QwenAPIClient.
+ */
+
+const INPUT_ROLES = ['user', 'assistant', 'system', 'developer'];
+
+/**
+ * Check the shape of Responses API input before it is converted.
+ * Returns an error message for the client, or null if the input is usable.
+ */
+export function validateResponsesInput(input: unknown): string | null {
+	if (typeof input === 'string') {
+		return null;
+	}
+	if (!Array.isArray(input)) {
+		return 'input must be a string or an array of input items';
+	}
+
+	for (const [index, item] of input.entries()) {
+		if (!item || typeof item !== 'object') {
+			return `input[${index}] must be an object`;
+		}
+		if (item.type === 'function_call') {
+			if (typeof item.call_id !== 'string' || typeof item.name !== 'string' || typeof item.arguments !== 'string') {
+				return `input[${index}]: function_call items need string call_id, name and arguments`;
+			}
+		} else if (item.type === 'function_call_output') {
+			if (typeof item.call_id !== 'string' || typeof item.output !== 'string') {
+				return `input[${index}]: function_call_output items need string call_id and output`;
+			}
+		} else if (item.type === undefined || item.type === 'message') {
+			if (!INPUT_ROLES.includes(item.role)) {
+				return `input[${index}].role must be one of ${INPUT_ROLES.join(', ')}`;
+			}
+			const content = item.content;
+			const validPart = (part: unknown) => {
+				const { type, text } = (part || {}) as { type?: unknown; text?: unknown };
+				return type === 'input_image' || ((type === 'input_text' || type === 'output_text') && typeof text === 'string');
+			};
+			if (typeof content !== 'string' && !(Array.isArray(content) && content.every(validPart))) {
+				return `input[${index}].content must be a string or an array of input_text, output_text and input_image parts`;
+			}
+		} else {
+			return `input[${index}] has unsupported type '${item.type}'`;
+		}
+	}
+	return null;
+}
+
+/**
+ * Convert Responses API input items into chat messages
+ */
+export function inputToChatMessages(input: ResponsesRequest['input']): ChatMessage[] {
+	if (typeof input === 'string') {
+		return [{ role: 'user', content: input }];
+	}
+
+	const messages: ChatMessage[] = [];
+
+	for (const item of input as ResponseInputItem[]) {
+		if (item.type === 'function_call') {
+			const toolCall: ToolCall = {
+				id: item.call_id,
+				type: 'function',
+				function: { name: item.name, arguments: item.arguments }
+			};
+			// Consecutive function calls belong to the same assistant turn
+			const last = messages[messages.length - 1];
+			if (last && last.role === 'assistant') {
+				last.tool_calls = [...(last.tool_calls || []), toolCall];
+			} else {
+				messages.push({ role: 'assistant', content: '', tool_calls: [toolCall] });
+			}
+		} else if (item.type === 'function_call_output') {
+			messages.push({ role: 'tool', tool_call_id: item.call_id, content: item.output });
+		} else {
+			const role = item.role === 'developer' ? 'system' : item.role;
+			if (typeof item.content === 'string') {
+				messages.push({ role, content: item.content });
+				continue;
+			}
+
+			const parts: ChatContent[] = item.content.map(part => part.type === 'input_image'
+				? { type: 'image_url', image_url: { url: part.image_url || '', detail: part.detail } }
+				: { type: 'text', text: part.text });
+			const onlyText = parts.every(part => part.type === 'text');
+			messages.push({ role, content: onlyText ? parts.map(part => part.text).join('') : parts });
+		}
+	}
+
+	return messages;
+}
+
+/**
+ * Build the chat completion request for a Responses API call.
+ * `history` holds the stored conversation of previous_response_id, if any.
+ */
+export function responsesToChatRequest(request: ResponsesRequest, history: ChatMessage[], logger: Logger): ChatCompletionRequest {
+	const messages: ChatMessage[] = [];
+
+	// Instructions only apply to the current response and are not carried over
+	if (request.instructions) {
+		messages.push({ role: 'system', content: request.instructions });
+	}
+	messages.push(...history, ...inputToChatMessages(request.input));
+
+	const chatRequest: ChatCompletionRequest = {
+		model: request.model,
+		messages,
+		stream: request.stream,
+		temperature: request.temperature,
+		top_p: request.top_p,
+		max_tokens: request.max_output_tokens,
+		parallel_tool_calls: request.parallel_tool_calls,
+		user: request.user
+	};
+
+	const functionTools = (request.tools || []).filter(tool => tool.type === 'function' && tool.name);
+	if (functionTools.length < (request.tools || []).length) {
+		logger.info('Ignoring non-function tools in Responses request (not supported by Qwen)', {
+			ignored_tools: (request.tools || []).length - functionTools.length
+		});
+	}
+	if (functionTools.length > 0) {
+		chatRequest.tools = functionTools.map(tool => ({
+			type: 'function',
+			function: {
+				name: tool.name!,
+				description: tool.description,
+				parameters: tool.parameters
+			}
+		}));
+	}
+
+	if (request.tool_choice) {
+		chatRequest.tool_choice = typeof request.tool_choice === 'string'
+			? request.tool_choice as ToolChoice
+			: { type: 'function', function: { name: request.tool_choice.name } };
+	}
+
+	const format = request.text?.format;
+	if (format && format.type !== 'text') {
+		chatRequest.response_format = format.type === 'json_schema'
+			? { type: 'json_schema', json_schema: { name: format.name, description: format.description, schema: format.schema, strict: format.strict } }
+			: { type: 'json_object' } as ResponseFormat;
+	}
+
+	if (request.stream) {
+		chatRequest.stream_options = { include_usage: true };
+	}
+
+	return chatRequest;
+}
+
+/**
+ * Create an empty in-progress response object for a request
+ */
+export function createResponseObject(request: ResponsesRequest): ResponseObject {
+	return {
+		id: `resp_${crypto.randomUUID().replace(/-/g, '')}`,
+		object: 'response',
+		created_at: Math.floor(Date.now() / 1000),
+		status: 'in_progress',
+		model: request.model,
+		instructions: request.instructions ?? null,
+		previous_response_id: request.previous_response_id ?? null,
+		output: [],
+		incomplete_details: null,
+		error: null,
+		usage: null,
+		metadata: request.metadata || {}
+	};
+}
+
+/**
+ * Convert an assistant chat message into Responses output items
+ */
+function buildOutputItems(message: ChatMessage, incomplete: boolean): ResponseOutputItem[] {
+	const output: ResponseOutputItem[] = [];
+	const text = typeof message.content === 'string'
+		? message.content
+		: (message.content || []).map(part => part.text || '').join('');
+
+	if (text) {
+		output.push({
+			type: 'message',
+			id: `msg_${crypto.randomUUID().replace(/-/g, '')}`,
+			status: incomplete ? 'incomplete' : 'completed',
+			role: 'assistant',
+			content: [{ type: 'output_text', text, annotations: [] }]
+		});
+	}
+
+	for (const toolCall of message.tool_calls || []) {
+		output.push({
+			type: 'function_call',
+			id: `fc_${crypto.randomUUID().replace(/-/g, '')}`,
+			call_id: toolCall.id,
+			name: toolCall.function.name,
+			arguments: toolCall.function.arguments,
+			status: 'completed'
+		});
+	}
+
+	return output;
+}
+
+/**
+ * Fill in a response object from a finished assistant message
+ */
+function completeResponse(
+	response: ResponseObject,
+	message: ChatMessage,
+	finishReason: string | null | undefined,
+	usage: { prompt_tokens: number; completion_tokens: number } | undefined
+): ResponseObject {
+	const incomplete = finishReason === 'length' || finishReason === 'content_filter';
+	return {
+		...response,
+		status: incomplete ? 'incomplete' : 'completed',
+		output: buildOutputItems(message, incomplete),
+		incomplete_details: incomplete
+			? { reason: finishReason === 'length' ? 'max_output_tokens' : 'content_filter' }
+			: null,
+		usage: usage
+			? {
+				input_tokens: usage.prompt_tokens || 0,
+				output_tokens: usage.completion_tokens || 0,
+				total_tokens: (usage.prompt_tokens || 0) + (usage.completion_tokens || 0)
+			}
+			: null
+	};
+}
+
+/**
+ * Convert a non-streaming chat completion into a Responses API object.
+ * Returns the assistant message too so it can be stored for continuation.
+ */
+export function chatResponseToResponses(
+	completion: ChatCompletionResponse,
+	response: ResponseObject
+): { response: ResponseObject; message: ChatMessage } {
+	const choice = completion.choices[0];
+	const message: ChatMessage = {
+		role: 'assistant',
+		content: choice?.message?.content || '',
+		...(choice?.message?.tool_calls && { tool_calls: choice.message.tool_calls })
+	};
+
+	return {
+		response: completeResponse(response, message, choice?.finish_reason, completion.usage),
+		message
+	};
+}
+
+/**
+ * Translate an OpenAI chat completion SSE stream into Responses API streaming events.
+ * `onComplete` runs before the stream closes so the finished response can be stored.
+ */
+export function chatStreamToResponses(
+	stream: ReadableStream,
+	initial: ResponseObject,
+	onComplete: (response: ResponseObject, message: ChatMessage) => Promise<void>,
+	logger: Logger
+): ReadableStream {
+	const encoder = new TextEncoder();
+	const { readable, writable } = new TransformStream();
+	const writer = writable.getWriter();
+	let sequenceNumber = 0;
+
+	const send = (event: string, data: Record<string, unknown>) =>
+		writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify({ type: event, sequence_number: sequenceNumber++, ...data })}\n\n`));
+
+	(async () => {
+		const reader = stream.getReader();
+		const messageItemId = `msg_${crypto.randomUUID().replace(/-/g, '')}`;
+		let text = '';
+		let textStarted = false;
+		let finishReason: string | null = null;
+		let usage: { prompt_tokens: number; completion_tokens: number } | undefined;
+		const toolCalls = new Map<number, ToolCall>();
+
+		try {
+			await send('response.created', { response: initial });
+			await send('response.in_progress', { response: initial });
+
+			for await (const event of readSSEEvents(reader)) {
+				const data = event.data;
+				if (data === '[DONE]') continue;
+
+				const chunk = JSON.parse(data) as ChatCompletionStreamChunk & { error?: { message: string } };
+
+				if (chunk.error) {
+					throw new Error(chunk.error.message);
+				}
+				if (chunk.usage) {
+					usage = chunk.usage;
+				}
+
+				const choice = chunk.choices?.[0];
+				if (!choice) continue;
+
+				if (choice.delta?.content) {
+					if (!textStarted) {
+						textStarted = true;
+						await send('response.output_item.added', {
+							output_index: 0,
+							item: { type: 'message', id: messageItemId, status: 'in_progress', role: 'assistant', content: [] }
+						});
+						await send('response.content_part.added', {
+							item_id: messageItemId,
+							output_index: 0,
+							content_index: 0,
+							part: { type: 'output_text', text: '', annotations: [] }
+						});
+					}
+					text += choice.delta.content;
+					await send('response.output_text.delta', {
+						item_id: messageItemId,
+						output_index: 0,
+						content_index: 0,
+						delta: choice.delta.content
+					});
+				}
+
+				// Tool call arguments are accumulated and emitted as complete items at the end
+				for (const delta of (choice.delta?.tool_calls || [])) {
+					const index = delta.index ?? 0;
+					const existing = toolCalls.get(index);
+					if (!existing) {
+						toolCalls.set(index, {
+							id: delta.id || `call_${crypto.randomUUID().replace(/-/g, '')}`,
+							type: 'function',
+							function: { name: delta.function?.name || '', arguments: delta.function?.arguments || '' }
+						});
+					} else {
+						// The name may arrive after the first delta
+						if (delta.function?.name) {
+							existing.function.name = delta.function.name;
+						}
+						existing.function.arguments += delta.function?.arguments || '';
+					}
+				}
+
+				if (choice.finish_reason) {
+					finishReason = choice.finish_reason;
+				}
+			}
+
+			const message: ChatMessage = { role: 'assistant', content: text };
+			if (toolCalls.size > 0) {
+				message.tool_calls = [...toolCalls.entries()].sort(([a], [b]) => a - b).map(([, call]) => call);
+			}
+
+			const final = completeResponse(initial, message, finishReason, usage);
+			// Keep the streamed message item ID stable in the final response
+			if (textStarted && final.output[0]?.type === 'message') {
+				final.output[0].id = messageItemId;
+			}
+
+			if (textStarted) {
+				await send('response.output_text.done', { item_id: messageItemId, output_index: 0, content_index: 0, text });
+				await send('response.content_part.done', {
+					item_id: messageItemId,
+					output_index: 0,
+					content_index: 0,
+					part: { type: 'output_text', text, annotations: [] }
+				});
+				await send('response.output_item.done', { output_index: 0, item: final.output[0] });
+			}
+
+			const firstToolOutput = textStarted ? 1 : 0;
+			for (let i = firstToolOutput; i < final.output.length; i++) {
+				const item = final.output[i];
+				if (item.type !== 'function_call') continue;
+				await send('response.output_item.added', { output_index: i, item: { ...item, arguments: '', status: 'in_progress' } });
+				await send('response.function_call_arguments.delta', { item_id: item.id, output_index: i, delta: item.arguments });
+				await send('response.function_call_arguments.done', { item_id: item.id, output_index: i, arguments: item.arguments });
+				await send('response.output_item.done', { output_index: i, item });
+			}
+
+			await onComplete(final, message);
+			await send(final.status === 'incomplete' ? 'response.incomplete' : 'response.completed', { response: final });
+			await writer.close();
+		} catch (error) {
+			logger.error('Error translating stream to Responses format', { error });
+			// Stop the upstream request if our client went away
+			await reader.cancel().catch(() => {});
+			try {
+				const failed: ResponseObject = {
+					...initial,
+					status: 'failed',
+					error: { code: 'server_error', message: error instanceof Error ? error.message : 'Unknown error' }
+				};
+				await send('response.failed', { response: failed });
+				await writer.close();
+			} catch (writeError) {
+				logger.error('Failed to write Responses error event', { error: writeError });
+			}
+		}
+	})();
+
+	return readable;
+}
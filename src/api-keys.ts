@@ -0,0 +1,466 @@
+import { Env, TokenUsage } from './types';
+import type { AccountCoordinator } from './coordinator';
+import { UsageCounters, EMPTY_USAGE, addUsage } from './pool-store';
+import {
+	KV_API_KEY_PREFIX,
+	KV_API_KEYS_CONFIGURED_KEY,
+	KV_API_KEY_USAGE_PREFIX,
+	KV_API_KEY_RATE_PREFIX,
+	KV_API_KEY_LAST_USED_PREFIX,
+	API_KEY_RATE_TTL,
+	API_KEY_PRESENCE_CACHE_MS,
+	USAGE_RECORD_TTL,
+	ACCOUNT_COORDINATOR_NAME
+} from './config';
+import { Logger, createLogger } from './logger';
+
+/**
+ * API keys stored as records in KV (`API_KEY:<sha256 hex of the key>`), each with its own
+ * model allowlist, requests-per-minute limit and daily request/token budgets.
+ * Keys from OPENAI_API_KEYS keep working without limits.
+ *
+ * Request counters are checked and incremented in one step when the request is admitted; tokens
+ * are only known once the upstream response finished and are added afterwards, so a token budget
+ * can be overshot by the requests already in flight when it runs out.
+ */
+
+export interface ApiKeyLimits {
+	requestsPerMinute: number | null;
+	dailyRequestLimit: number | null;
+	dailyTokenLimit: number | null; // Total (prompt + completion) tokens per UTC day
+}
+
+export interface ApiKeyRecord extends ApiKeyLimits {
+	id: string; // Public identifier, safe to log (the key itself is never stored)
+	name: string;
+	models: string[] | null; // Allowed models, null for all
+	createdAt: number;
+	keyHint: string; // Last characters of the key, to tell keys apart
+	expiresAt: number | null; // Set on a rotated-out key that keeps working until then
+}
+
+// KV metadata stored alongside each API_KEY: value
+interface ApiKeyMetadata {
+	id: string;
+	expiresAt: number | null;
+}
+
+interface ApiKeyEntry {
+	hash: string;
+	id: string;
+	expiresAt: number | null;
+}
+
+export interface StoredApiKey {
+	record: ApiKeyRecord;
+	previousKeyExpiresAt: number | null; // Latest grace-period end among rotated-out secrets
+}
+
+export type NewApiKey = Pick<ApiKeyRecord, 'name' | 'models' | 'requestsPerMinute' | 'dailyRequestLimit' | 'dailyTokenLimit'>;
+
+export type ApiKeyLimitName = 'requests_per_minute' | 'daily_requests' | 'daily_tokens';
+
+export interface RateLimitWindow {
+	limit: number;
+	remaining: number;
+	resetAt: number; // Epoch ms
+}
+
+export interface ApiKeyAdmission {
+	allowed: boolean;
+	exceeded: { limit: ApiKeyLimitName; window: RateLimitWindow } | null; // First limit that rejected the request
+	minute: RateLimitWindow | null;
+	dailyRequests: RateLimitWindow | null;
+	dailyTokens: RateLimitWindow | null;
+}
+
+export interface ApiKeyUsageStore {
+	admit(keyId: string, limits: ApiKeyLimits, requests?: number): Promise<ApiKeyAdmission | null>; // Counts `requests` (default 1) when allowed; null once revoked
+	recordTokens(keyId: string, date: string, usage: TokenUsage): Promise<void>;
+	getUsage(keyId: string, date: string): Promise<UsageCounters>;
+	getLastUsed(keyId: string): Promise<number | null>;
+	revoke(keyId: string): Promise<void>; // Reject the key right away and drop its counters
+}
+
+declare module 'hono' {
+	interface ContextVariableMap {
+		apiKey: ApiKeyRecord | undefined; // Set by the API key middleware for keys stored in KV
+		recordApiKeyUsage: ((usage: TokenUsage) => Promise<void>) | undefined; // Adds upstream tokens to the key's budget
+	}
+}
+
+// Whether key records were configured, per isolate
+let presenceCache: { present: boolean; expiresAt: number } | null = null;
+
+/**
+ * SHA-256 of an API key as lowercase hex (the KV key of its record)
+ */
+export async function hashApiKey(apiKey: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+	return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function randomHex(bytes: number): string {
+	return [...crypto.getRandomValues(new Uint8Array(bytes))].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * API key records in KV. A key may have several live secrets while a rotation's grace period runs;
+ * each is stored under its own hash with the key ID as list metadata.
+ */
+export class ApiKeyStore {
+	constructor(private kv: KVNamespace) {}
+
+	/**
+	 * Look up the record for a presented API key
+	 */
+	async find(apiKey: string): Promise<ApiKeyRecord | null> {
+		const record = await this.get(await hashApiKey(apiKey));
+		if (!record || (record.expiresAt !== null && record.expiresAt <= Date.now())) {
+			return null;
+		}
+		return record;
+	}
+
+	private async get(hash: string): Promise<ApiKeyRecord | null> {
+		const record = await this.kv.get(`${KV_API_KEY_PREFIX}${hash}`, 'json') as Partial<ApiKeyRecord> | null;
+		if (!record) {
+			return null;
+		}
+
+		// Records written by hand may leave out optional fields
+		return {
+			id: record.id || hash.substring(0, 16),
+			name: record.name || '',
+			models: Array.isArray(record.models) ? record.models : null,
+			requestsPerMinute: record.requestsPerMinute ?? null,
+			dailyRequestLimit: record.dailyRequestLimit ?? null,
+			dailyTokenLimit: record.dailyTokenLimit ?? null,
+			createdAt: record.createdAt ?? 0,
+			keyHint: record.keyHint || '',
+			expiresAt: record.expiresAt ?? null
+		};
+	}
+
+	private async put(hash: string, record: ApiKeyRecord): Promise<void> {
+		const metadata: ApiKeyMetadata = { id: record.id, expiresAt: record.expiresAt };
+		await this.kv.put(`${KV_API_KEY_PREFIX}${hash}`, JSON.stringify(record), {
+			metadata,
+			// KV drops a rotated-out key once its grace period is over (expiration must be 60s+ ahead)
+			...(record.expiresAt !== null && { expiration: Math.ceil(Math.max(record.expiresAt, Date.now() + 60 * 1000) / 1000) })
+		});
+	}
+
+	/**
+	 * Whether key records were ever configured; until then (and without OPENAI_API_KEYS) the proxy is open.
+	 * The marker outlives the records, so revoking the last key never opens the proxy.
+	 */
+	async isConfigured(): Promise<boolean> {
+		if (presenceCache && presenceCache.expiresAt > Date.now()) {
+			return presenceCache.present;
+		}
+
+		let present = (await this.kv.get(KV_API_KEYS_CONFIGURED_KEY)) !== null;
+		if (!present) {
+			// Records written by hand, before the marker existed
+			present = (await this.kv.list({ prefix: KV_API_KEY_PREFIX, limit: 1 })).keys.length > 0;
+			if (present) {
+				await this.markConfigured();
+			}
+		}
+		presenceCache = { present, expiresAt: Date.now() + API_KEY_PRESENCE_CACHE_MS };
+		return present;
+	}
+
+	private async markConfigured(): Promise<void> {
+		await this.kv.put(KV_API_KEYS_CONFIGURED_KEY, String(Date.now()));
+		presenceCache = { present: true, expiresAt: Date.now() + API_KEY_PRESENCE_CACHE_MS };
+	}
+
+	/**
+	 * Every live secret, without reading the records
+	 */
+	private async listEntries(): Promise<ApiKeyEntry[]> {
+		const entries: ApiKeyEntry[] = [];
+		let cursor: string | undefined;
+		do {
+			const page: KVNamespaceListResult<ApiKeyMetadata> = await this.kv.list<ApiKeyMetadata>({ prefix: KV_API_KEY_PREFIX, cursor });
+			for (const key of page.keys) {
+				const hash = key.name.substring(KV_API_KEY_PREFIX.length);
+				if (key.metadata) {
+					entries.push({ hash, id: key.metadata.id, expiresAt: key.metadata.expiresAt });
+				} else {
+					// Written by hand, without metadata
+					const record = await this.get(hash);
+					if (record) {
+						entries.push({ hash, id: record.id, expiresAt: record.expiresAt });
+					}
+				}
+			}
+			cursor = page.list_complete ? undefined : page.cursor;
+		} while (cursor);
+
+		return entries.filter(entry => entry.expiresAt === null || entry.expiresAt > Date.now());
+	}
+
+	/**
+	 * Current record of every key, with when its rotated-out secrets stop working
+	 */
+	async list(): Promise<StoredApiKey[]> {
+		const entries = await this.listEntries();
+		const keys = await Promise.all(entries.filter(entry => entry.expiresAt === null).map(async entry => {
+			const record = await this.get(entry.hash);
+			const expiries = entries.filter(other => other.id === entry.id && other.expiresAt !== null).map(other => other.expiresAt as number);
+			return record && { record, previousKeyExpiresAt: expiries.length > 0 ? Math.max(...expiries) : null };
+		}));
+		return keys.filter((key): key is StoredApiKey => key !== null);
+	}
+
+	/**
+	 * Issue a new key; the returned secret is not stored and can't be shown again
+	 */
+	async create(fields: NewApiKey): Promise<{ apiKey: string; record: ApiKeyRecord }> {
+		const apiKey = `sk-${randomHex(24)}`;
+		const record: ApiKeyRecord = {
+			...fields,
+			id: `key_${randomHex(8)}`,
+			createdAt: Date.now(),
+			keyHint: apiKey.slice(-4),
+			expiresAt: null
+		};
+
+		await this.put(await hashApiKey(apiKey), record);
+		await this.markConfigured();
+		return { apiKey, record };
+	}
+
+	/**
+	 * Issue a new secret for a key. Its previous secrets keep working for `graceSeconds` (0 ends them now).
+	 * Returns null if the key doesn't exist.
+	 */
+	async rotate(keyId: string, graceSeconds: number): Promise<{ apiKey: string; record: ApiKeyRecord; previousKeyExpiresAt: number | null } | null> {
+		const entries = (await this.listEntries()).filter(entry => entry.id === keyId);
+		const current = entries.find(entry => entry.expiresAt === null);
+		const record = current && await this.get(current.hash);
+		if (!current || !record) {
+			return null;
+		}
+
+		const apiKey = `sk-${randomHex(24)}`;
+		const rotated: ApiKeyRecord = { ...record, keyHint: apiKey.slice(-4), expiresAt: null };
+		await this.put(await hashApiKey(apiKey), rotated);
+
+		if (graceSeconds <= 0) {
+			await Promise.all(entries.map(entry => this.kv.delete(`${KV_API_KEY_PREFIX}${entry.hash}`)));
+			return { apiKey, record: rotated, previousKeyExpiresAt: null };
+		}
+
+		// Secrets still in an earlier grace period keep their own expiry
+		const expiresAt = Date.now() + graceSeconds * 1000;
+		await this.put(current.hash, { ...record, expiresAt });
+		const previousKeyExpiresAt = Math.max(expiresAt, ...entries.map(entry => entry.expiresAt ?? 0));
+		return { apiKey, record: rotated, previousKeyExpiresAt };
+	}
+
+	/**
+	 * Delete every secret of a key. Returns false if the key doesn't exist.
+	 */
+	async revoke(keyId: string): Promise<boolean> {
+		const entries = (await this.listEntries()).filter(entry => entry.id === keyId);
+		await Promise.all(entries.map(entry => this.kv.delete(`${KV_API_KEY_PREFIX}${entry.hash}`)));
+		return entries.length > 0;
+	}
+}
+
+export function isModelAllowed(record: ApiKeyRecord, model: string): boolean {
+	return !record.models || record.models.includes(model);
+}
+
+/**
+ * Decide whether a request fits a key's limits, given the counts before it. `requests` is how many
+ * upstream requests it makes (one per prompt for /v1/completions), all of which must fit.
+ * Request windows report what remains after this request when it is allowed.
+ */
+export function evaluateAdmission(limits: ApiKeyLimits, minuteRequests: number, daily: UsageCounters, now: number, requests = 1): ApiKeyAdmission {
+	const minuteReset = (Math.floor(now / 60000) + 1) * 60000;
+	const nextUtcDay = new Date(now);
+	nextUtcDay.setUTCHours(24, 0, 0, 0);
+
+	const checks: { name: ApiKeyLimitName; limit: number | null; used: number; resetAt: number; perRequest: boolean }[] = [
+		{ name: 'requests_per_minute', limit: limits.requestsPerMinute, used: minuteRequests, resetAt: minuteReset, perRequest: true },
+		{ name: 'daily_requests', limit: limits.dailyRequestLimit, used: daily.requests, resetAt: nextUtcDay.getTime(), perRequest: true },
+		{ name: 'daily_tokens', limit: limits.dailyTokenLimit, used: daily.total_tokens, resetAt: nextUtcDay.getTime(), perRequest: false }
+	];
+
+	const rejectedBy = checks.findIndex(check => check.limit !== null && check.used + (check.perRequest ? requests - 1 : 0) >= check.limit);
+	const windows = checks.map(check => {
+		if (check.limit === null) {
+			return null;
+		}
+		const used = check.used + (rejectedBy < 0 && check.perRequest ? requests : 0);
+		return { limit: check.limit, remaining: Math.max(0, check.limit - used), resetAt: check.resetAt };
+	});
+
+	return {
+		allowed: rejectedBy < 0,
+		exceeded: rejectedBy < 0 ? null : { limit: checks[rejectedBy].name, window: windows[rejectedBy]! },
+		minute: windows[0],
+		dailyRequests: windows[1],
+		dailyTokens: windows[2]
+	};
+}
+
+/**
+ * Count admitted requests in daily counters
+ */
+export function addRequests(current: UsageCounters, requests: number): UsageCounters {
+	return { ...current, requests: current.requests + requests };
+}
+
+/**
+ * Add tokens to daily counters without counting another request
+ */
+export function addTokens(current: UsageCounters, usage: TokenUsage): UsageCounters {
+	return { ...addUsage(current, usage), requests: current.requests };
+}
+
+/**
+ * OpenAI-style reset duration, e.g. "1s", "6m0s", "13h4m20s"
+ */
+function formatResetDuration(ms: number): string {
+	const seconds = Math.max(1, Math.ceil(ms / 1000));
+	const hours = Math.floor(seconds / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	if (hours > 0) return `${hours}h${minutes}m${seconds % 60}s`;
+	if (minutes > 0) return `${minutes}m${seconds % 60}s`;
+	return `${seconds}s`;
+}
+
+/**
+ * x-ratelimit-* headers for a key's limits: `-requests` is the per-minute window,
+ * `-requests-day` and `-tokens` are the daily budgets
+ */
+export function rateLimitHeaders(admission: ApiKeyAdmission, now: number = Date.now()): Record<string, string> {
+	const headers: Record<string, string> = {};
+	const windows: [string, RateLimitWindow | null][] = [
+		['requests', admission.minute],
+		['requests-day', admission.dailyRequests],
+		['tokens', admission.dailyTokens]
+	];
+
+	for (const [suffix, window] of windows) {
+		if (window) {
+			headers[`x-ratelimit-limit-${suffix}`] = String(window.limit);
+			headers[`x-ratelimit-remaining-${suffix}`] = String(window.remaining);
+			headers[`x-ratelimit-reset-${suffix}`] = formatResetDuration(window.resetAt - now);
+		}
+	}
+	return headers;
+}
+
+/**
+ * Key counters in KV. Limits are approximate: read-modify-write is not atomic, KV reads can be
+ * up to a minute stale and each key takes about one write per second, so a busy key can go well
+ * past its per-minute limit. Bind the coordinator for accurate limits.
+ * KV errors fail open: the request is admitted and may go uncounted.
+ */
+export class KVApiKeyUsageStore implements ApiKeyUsageStore {
+	constructor(private kv: KVNamespace, private logger: Logger) {}
+
+	async admit(keyId: string, limits: ApiKeyLimits, requests = 1): Promise<ApiKeyAdmission> {
+		const now = Date.now();
+		const date = new Date(now).toISOString().split('T')[0];
+		const rateKey = `${KV_API_KEY_RATE_PREFIX}${keyId}:${Math.floor(now / 60000)}`;
+
+		let minuteRequests: number;
+		let daily: UsageCounters;
+		try {
+			[minuteRequests, daily] = await Promise.all([
+				limits.requestsPerMinute !== null ? this.kv.get(rateKey).then(value => parseInt(value || '0', 10) || 0) : 0,
+				this.getUsage(keyId, date)
+			]);
+		} catch (error) {
+			// Without the counters there is nothing to check or to add to
+			this.logger.warn('Failed to read API key counters, admitting the request', { key_id: keyId, error });
+			return evaluateAdmission(limits, 0, EMPTY_USAGE, now, requests);
+		}
+
+		const admission = evaluateAdmission(limits, minuteRequests, daily, now, requests);
+		if (admission.allowed) {
+			try {
+				await Promise.all([
+					limits.requestsPerMinute !== null && this.kv.put(rateKey, String(minuteRequests + requests), { expirationTtl: API_KEY_RATE_TTL }),
+					this.kv.put(`${KV_API_KEY_USAGE_PREFIX}${keyId}:${date}`, JSON.stringify(addRequests(daily, requests)), { expirationTtl: USAGE_RECORD_TTL }),
+					this.kv.put(`${KV_API_KEY_LAST_USED_PREFIX}${keyId}`, String(now))
+				]);
+			} catch (error) {
+				// e.g. the per-key write limit on a busy key
+				this.logger.warn('Failed to count API key request', { key_id: keyId, error });
+			}
+		}
+		return admission;
+	}
+
+	async recordTokens(keyId: string, date: string, usage: TokenUsage): Promise<void> {
+		const updated = addTokens(await this.getUsage(keyId, date), usage);
+		await this.kv.put(`${KV_API_KEY_USAGE_PREFIX}${keyId}:${date}`, JSON.stringify(updated), { expirationTtl: USAGE_RECORD_TTL });
+	}
+
+	async getUsage(keyId: string, date: string): Promise<UsageCounters> {
+		const stored = await this.kv.get(`${KV_API_KEY_USAGE_PREFIX}${keyId}:${date}`, 'json') as Partial<UsageCounters> | null;
+		return { ...EMPTY_USAGE, ...stored };
+	}
+
+	async getLastUsed(keyId: string): Promise<number | null> {
+		const stored = await this.kv.get(`${KV_API_KEY_LAST_USED_PREFIX}${keyId}`);
+		return stored ? parseInt(stored, 10) : null;
+	}
+
+	/**
+	 * Deleting the key's records is all KV can do; other locations see it within about a minute
+	 */
+	async revoke(keyId: string): Promise<void> {
+		await this.kv.delete(`${KV_API_KEY_LAST_USED_PREFIX}${keyId}`);
+	}
+}
+
+/**
+ * Key counters owned by the AccountCoordinator Durable Object, checked and updated atomically
+ */
+export class CoordinatorApiKeyUsageStore implements ApiKeyUsageStore {
+	private coordinator: DurableObjectStub<AccountCoordinator>;
+
+	constructor(namespace: NonNullable<Env['ACCOUNT_COORDINATOR']>) {
+		this.coordinator = namespace.get(namespace.idFromName(ACCOUNT_COORDINATOR_NAME));
+	}
+
+	async admit(keyId: string, limits: ApiKeyLimits, requests = 1): Promise<ApiKeyAdmission | null> {
+		return await this.coordinator.admitApiKeyRequest(keyId, limits, requests);
+	}
+
+	async recordTokens(keyId: string, date: string, usage: TokenUsage): Promise<void> {
+		await this.coordinator.recordApiKeyTokens(keyId, date, usage);
+	}
+
+	async getUsage(keyId: string, date: string): Promise<UsageCounters> {
+		return await this.coordinator.getApiKeyUsage(keyId, date);
+	}
+
+	async getLastUsed(keyId: string): Promise<number | null> {
+		return await this.coordinator.getApiKeyLastUsed(keyId);
+	}
+
+	async revoke(keyId: string): Promise<void> {
+		await this.coordinator.revokeApiKey(keyId);
+	}
+}
+
+/**
+ * Use the coordinator when it is bound, falling back to plain KV like the pool store
+ */
+export function createApiKeyUsageStore(env: Env, logger: Logger = createLogger(env)): ApiKeyUsageStore {
+	if (env.ACCOUNT_COORDINATOR) {
+		return new CoordinatorApiKeyUsageStore(env.ACCOUNT_COORDINATOR);
+	}
+	return new KVApiKeyUsageStore(env.QWEN_TOKEN_CACHE, logger);
+}
@@ -9,6 +9,7 @@ import {
 	TOKEN_BUFFER_TIME,
 	KV_TOKEN_KEY
 } from './config';
+import { Logger, createLogger } from './logger';
 
 /**
  * Handles OAuth2 authentication for Qwen API.
@@ -17,9 +18,11 @@ import {
 export class QwenAuthManager {
 	private env: Env;
 	private accessToken: string | null = null;
+	public readonly logger: Logger;
 
-	constructor(env: Env) {
+	constructor(env: Env, logger: Logger = createLogger(env)) {
 		this.env = env;
+		this.logger = logger;
 	}
 
 	/**
@@ -38,10 +41,10 @@ export class QwenAuthManager {
 				const cachedToken = await this.env.QWEN_TOKEN_CACHE.get(KV_TOKEN_KEY, 'json');
 				if (cachedToken) {
 					cachedTokenData = cachedToken as CachedTokenData;
-					console.log('Found cached token in KV storage');
+					this.logger.debug('Found cached token in KV storage');
 				}
 			} catch (kvError) {
-				console.log('No cached token found in KV storage or KV error:', kvError);
+				this.logger.warn('Failed to read cached token from KV storage', { error: kvError });
 			}
 
 			// Check if cached token is still valid (with buffer)
@@ -49,10 +52,10 @@ export class QwenAuthManager {
 				const timeUntilExpiry = cachedTokenData.expiry_date - Date.now();
 				if (timeUntilExpiry > TOKEN_BUFFER_TIME) {
 					this.accessToken = cachedTokenData.access_token;
-					console.log(`Using cached token, valid for ${Math.floor(timeUntilExpiry / 1000)} more seconds`);
+					this.logger.debug('Using cached token', { expires_in_seconds: Math.floor(timeUntilExpiry / 1000) });
 					return;
 				}
-				console.log('Cached token expired or expiring soon');
+				this.logger.debug('Cached token expired or expiring soon');
 			}
 
 			// Parse original credentials from environment
@@ -63,7 +66,7 @@ export class QwenAuthManager {
 			if (timeUntilExpiry > TOKEN_BUFFER_TIME) {
 				// Original token is still valid, cache it and use it
 				this.accessToken = oauth2Creds.access_token;
-				console.log(`Original token is valid for ${Math.floor(timeUntilExpiry / 1000)} more seconds`);
+				this.logger.debug('Using original token', { expires_in_seconds: Math.floor(timeUntilExpiry / 1000) });
 
 				// Cache the token in KV storage
 				await this.cacheTokenInKV(oauth2Creds.access_token, oauth2Creds.expiry_date);
@@ -71,11 +74,11 @@ export class QwenAuthManager {
 			}
 
 			// Both original and cached tokens are expired, refresh the token
-			console.log('All tokens expired, refreshing...');
+			this.logger.info('All tokens expired, refreshing');
 			await this.refreshAndCacheToken(oauth2Creds.refresh_token);
 		} catch (e: unknown) {
 			const errorMessage = e instanceof Error ? e.message : String(e);
-			console.error('Failed to initialize authentication:', e);
+			this.logger.error('Failed to initialize authentication', { error: e });
 			throw new Error('Authentication failed: ' + errorMessage);
 		}
 	}
@@ -154,7 +157,7 @@ export class QwenAuthManager {
 					this.accessToken = tokenData.access_token;
 					await this.cacheTokenInKV(tokenData.access_token, fullCredentials.expiry_date);
 					
-					console.log('Authentication successful!');
+					this.logger.info('Device flow authentication successful');
 					return tokenData.access_token;
 				} else {
 					const errorData = await response.json().catch(() => ({})) as any;
@@ -194,7 +197,7 @@ export class QwenAuthManager {
 	 * Matches the exact logic from the working Qwen proxy.
 	 */
 	private async refreshAndCacheToken(refreshToken: string): Promise<void> {
-		console.log('Refreshing Qwen access token...');
+		this.logger.info('Refreshing Qwen access token');
 		
 		if (!refreshToken) {
 			throw new Error('No refresh token available. Please re-authenticate with the Qwen CLI.');
@@ -227,13 +230,12 @@ export class QwenAuthManager {
 			// Calculate expiry time (typically 1 hour from now)
 			const expiryTime = Date.now() + tokenData.expires_in * 1000;
 
-			console.log('Qwen access token refreshed successfully');
-			console.log(`New token expires in ${tokenData.expires_in} seconds`);
+			this.logger.info('Qwen access token refreshed', { expires_in_seconds: tokenData.expires_in });
 
 			// Cache the new token in KV storage
 			await this.cacheTokenInKV(tokenData.access_token, expiryTime);
 		} catch (error) {
-			console.error('Token refresh failed:', error);
+			this.logger.error('Token refresh failed', { error });
 			throw error;
 		}
 	}
@@ -256,12 +258,12 @@ export class QwenAuthManager {
 				await this.env.QWEN_TOKEN_CACHE.put(KV_TOKEN_KEY, JSON.stringify(tokenData), {
 					expirationTtl: ttlSeconds
 				});
-				console.log(`Token cached in KV storage with TTL of ${ttlSeconds} seconds`);
+				this.logger.debug('Token cached in KV storage', { ttl_seconds: ttlSeconds });
 			} else {
-				console.log('Token expires too soon, not caching in KV');
+				this.logger.debug('Token expires too soon, not caching in KV');
 			}
 		} catch (kvError) {
-			console.error('Failed to cache token in KV storage:', kvError);
+			this.logger.error('Failed to cache token in KV storage', { error: kvError });
 			// Don't throw an error here as the token is still valid, just not cached
 		}
 	}
@@ -272,9 +274,9 @@ export class QwenAuthManager {
 	public async clearTokenCache(): Promise<void> {
 		try {
 			await this.env.QWEN_TOKEN_CACHE.delete(KV_TOKEN_KEY);
-			console.log('Cleared cached token from KV storage');
+			this.logger.info('Cleared cached token from KV storage');
 		} catch (kvError) {
-			console.log('Error clearing KV cache:', kvError);
+			this.logger.error('Failed to clear cached token from KV storage', { error: kvError });
 		}
 	}
 
@@ -321,7 +323,7 @@ export class QwenAuthManager {
 
 		if (!response.ok) {
 			if (response.status === 401 && !isRetry) {
-				console.log('Got 401 error, clearing token cache and retrying...');
+				this.logger.info('Got 401, clearing token cache and retrying');
 				this.accessToken = null; // Clear cached token
 				await this.clearTokenCache(); // Clear KV cache
 				await this.initializeAuth(); // This will refresh the token
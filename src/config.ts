@@ -9,10 +9,104 @@ export const QWEN_OAUTH_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_co
 // --- Qwen API Configuration ---
 export const QWEN_API_BASE_URL = 'https://dashscope.aliyuncs.com/compatible-mode/v1';
 export const DEFAULT_MODEL = 'qwen3-coder-plus';
+export const MODEL_IDS = ['qwen3-coder-plus', 'qwen3-coder-flash', 'vision-model']; // Models listed by /v1/models
 
 // --- Token Management ---
 export const TOKEN_BUFFER_TIME = 30 * 1000; // 30 seconds
 export const KV_TOKEN_KEY = 'qwen_access_token';
+export const KV_REFRESH_LOCK_PREFIX = 'REFRESH_LOCK:'; // REFRESH_LOCK:<accountId>
+export const REFRESH_LEASE_MS = 30 * 1000; // How long one request may hold the refresh lease
+export const REFRESH_LEASE_TTL = 60; // KV expiration for lease keys, in seconds (KV minimum)
+export const REFRESH_LEASE_VERIFY_DELAY_MS = 250; // Wait before checking that our lease write won
+export const REFRESH_POLL_INTERVAL_MS = 500; // How often waiters check for refreshed credentials
+export const REFRESH_WAIT_TIMEOUT_MS = 15 * 1000; // Give up waiting for another request's refresh
+
+// --- Account Usage Tracking ---
+export const KV_USAGE_PREFIX = 'USAGE:'; // USAGE:<accountId>:<YYYY-MM-DD>
+export const QWEN_DAILY_REQUEST_LIMIT = 2000; // Free tier requests per account per UTC day
+export const USAGE_NEAR_LIMIT_RATIO = 0.9; // Deprioritize accounts past this share of the daily limit
+export const USAGE_RECORD_TTL = 2 * 24 * 60 * 60; // Keep daily counters for 2 days, in seconds
+
+// --- Account Failure Cooldowns ---
+export const KV_FAILURE_PREFIX = 'FAILURE:'; // FAILURE:<accountId>
+export const RATE_LIMIT_BASE_COOLDOWN_MS = 60 * 1000; // Doubles with each consecutive rate limit
+export const RATE_LIMIT_MAX_COOLDOWN_MS = 60 * 60 * 1000;
+export const AUTH_FAILURE_BASE_COOLDOWN_MS = 5 * 60 * 1000; // Doubles with each consecutive auth failure
+export const AUTH_FAILURE_MAX_COOLDOWN_MS = 6 * 60 * 60 * 1000;
+export const PROBE_WINDOW_MS = 60 * 1000; // A re-admitted account gets one probe request per window
+export const FAILURE_RECORD_TTL = 7 * 24 * 60 * 60; // 7 days, in seconds
+
+// --- Account Coordinator (Durable Object) ---
+export const ACCOUNT_COORDINATOR_NAME = 'pool'; // Single coordinator instance for the whole pool
+export const COORDINATOR_CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000; // Prune expired usage/failure state daily
+
+// --- Scheduled Maintenance ---
+export const PROACTIVE_REFRESH_WINDOW_MS = 20 * 60 * 1000; // Refresh tokens expiring within this window (keep above the cron interval)
+export const KV_HEALTH_SNAPSHOT_KEY = 'HEALTH_SNAPSHOT'; // Latest snapshot from the scheduled handler
+export const KV_LAST_DAILY_RESET_KEY = 'LAST_DAILY_RESET'; // UTC date (YYYY-MM-DD) of the last daily reset
+export const POOL_STATE_BATCH_SIZE = 100; // Accounts whose pool state the daily reset and snapshot read at once
+
+// --- Account Administration ---
+export const KV_DISABLED_PREFIX = 'DISABLED:'; // DISABLED:<accountId>, present while an admin keeps the account out of rotation
+export const KV_DISABLED_ACCOUNTS_KEY = 'DISABLED_ACCOUNTS'; // Legacy comma-separated list, moved into the pool store when first read
+export const ACCOUNT_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+export const ACCOUNT_INDEX_CACHE_MS = 30 * 1000; // How long an isolate reuses the listed account index
+export const ACCOUNT_LIST_PAGE_SIZE = 100; // Default accounts per /admin/accounts page
+export const ACCOUNT_LIST_MAX_PAGE_SIZE = 1000; // Largest page (the KV list limit)
+
+// --- Admin Health Check ---
+export const KV_HEALTH_CHECK_PREFIX = 'HEALTH_CHECK:'; // HEALTH_CHECK:<mode> -> latest /admin/health results for that mode
+export const HEALTH_CHECK_CACHE_TTL = 60 * 60; // KV expiration for cached results, in seconds (also the largest max_age)
+export const HEALTH_CHECK_DEFAULT_MAX_AGE = 60; // Serve cached results younger than this many seconds
+export const HEALTH_CHECK_CONCURRENCY = 4; // Accounts checked at once
+export const HEALTH_CHECK_MAX_CONCURRENCY = 16;
+export const HEALTH_CHECK_TIMEOUT_MS = 15 * 1000; // Per account, including any token refresh
+export const HEALTH_CHECK_MAX_TIMEOUT_MS = 60 * 1000;
+
+// --- Account Onboarding ---
+export const KV_ONBOARDING_PREFIX = 'ONBOARDING:'; // ONBOARDING:<sessionId>, expires with the device code
+export const DEVICE_FLOW_SLOW_DOWN_SECONDS = 5; // Added to the poll interval on slow_down (RFC 8628)
+
+// --- Account Selection ---
+export const KV_SELECTION_STRATEGY_KEY = 'CONFIG:SELECTION_STRATEGY'; // Overrides ACCOUNT_SELECTION_STRATEGY without a redeploy
+export const KV_ACCOUNT_PRIORITIES_KEY = 'CONFIG:ACCOUNT_PRIORITIES'; // Overrides ACCOUNT_PRIORITIES
+export const SELECTION_SAMPLE_SIZE = 16; // Max accounts a selection reads KV state for (whole pool with the coordinator)
+
+// --- API Keys ---
+export const KV_API_KEY_PREFIX = 'API_KEY:'; // API_KEY:<sha256 hex of the key> -> key record
+export const KV_API_KEY_USAGE_PREFIX = 'KEY_USAGE:'; // KEY_USAGE:<keyId>:<YYYY-MM-DD>
+export const KV_API_KEY_RATE_PREFIX = 'KEY_RATE:'; // KEY_RATE:<keyId>:<epoch minute>
+export const API_KEY_RATE_TTL = 2 * 60; // KV expiration for per-minute counters, in seconds (KV minimum is 60)
+export const API_KEY_PRESENCE_CACHE_MS = 60 * 1000; // How long an isolate remembers whether key records were configured
+export const KV_API_KEYS_CONFIGURED_KEY = 'CONFIG:API_KEYS_CONFIGURED'; // Set once the first key record exists; keeps auth required after the last key is revoked
+export const KV_API_KEY_LAST_USED_PREFIX = 'KEY_LAST_USED:'; // KEY_LAST_USED:<keyId> -> epoch ms
+export const API_KEY_ROTATION_GRACE_SECONDS = 24 * 60 * 60; // Default time a rotated-out key keeps working
+export const API_KEY_MAX_ROTATION_GRACE_SECONDS = 30 * 24 * 60 * 60;
+export const API_KEY_REVOCATION_RETENTION_MS = 24 * 60 * 60 * 1000; // Coordinator rejects revoked keys until KV deletes have propagated
+
+// --- Usage Ledger ---
+export const KV_LEDGER_PREFIX = 'LEDGER:'; // LEDGER:<hour>:<key>:<account>:<model>, counters in list metadata
+export const LEDGER_RETENTION_DAYS = 31; // Hourly rollups are kept this long, which also caps a report's range
+export const LEDGER_ENV_KEY_LABEL = 'env'; // Key label for OPENAI_API_KEYS requests (or no key while the proxy is open)
+export const LEDGER_HEALTH_CHECK_LABEL = 'health-check'; // Key label for /admin/health test completions
+export const LEDGER_NO_ACCOUNT_LABEL = '-'; // Account label when a request failed before an account was selected
+
+// --- Metrics ---
+export const KV_METRICS_KEY = 'METRICS'; // Counters and histograms when the coordinator isn't bound
+export const METRICS_KV_FLUSH_INTERVAL_MS = 10 * 1000; // How often an isolate merges its counts into KV (one key, so rarely)
+export const UPSTREAM_LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]; // Histogram buckets in seconds
 
 // --- OpenAI API Constants ---
 export const OPENAI_MODEL_OWNER = 'qwen';
+
+// --- Request Timeouts ---
+export const DEFAULT_REQUEST_TIMEOUT_MS = 5 * 60 * 1000; // Whole upstream request, including streaming
+export const DEFAULT_STREAM_IDLE_TIMEOUT_MS = 60 * 1000; // Max gap between upstream stream chunks
+
+// --- Chat Completion Parameters ---
+// OpenAI parameters the Qwen compatible-mode API rejects; stripped before forwarding
+export const QWEN_UNSUPPORTED_PARAMETERS = ['logit_bias', 'service_tier', 'store', 'metadata', 'prediction', 'modalities', 'audio'];
+
+// --- Responses API Storage ---
+export const KV_RESPONSE_PREFIX = 'RESPONSE:';
+export const RESPONSE_STORE_TTL = 30 * 24 * 60 * 60; // 30 days, in seconds
@@ -0,0 +1,365 @@
+import { DurableObject } from 'cloudflare:workers';
+import { Env, TokenUsage } from './types';
+import type { AccountFailure, AccountFailureReason } from './multi-auth';
+import { PoolState, EMPTY_USAGE, RefreshLease, UsageCounters, addUsage, nextFailure } from './pool-store';
+import type { SealedCredentials } from './credential-vault';
+import { ApiKeyAdmission, ApiKeyLimits, addRequests, addTokens, evaluateAdmission } from './api-keys';
+import {
+	EMPTY_LEDGER_COUNTERS,
+	LedgerBucket,
+	LedgerCounters,
+	LedgerEntry,
+	LedgerQuery,
+	addLedgerEntry,
+	ledgerBucketKey,
+	ledgerBucketOf,
+	matchesLedgerQuery,
+	oldestLedgerDate,
+	parseLedgerBucketKey
+} from './usage-ledger';
+import { MetricSeries } from './metrics';
+import { createLogger } from './logger';
+import {
+	PROBE_WINDOW_MS,
+	REFRESH_LEASE_MS,
+	USAGE_RECORD_TTL,
+	FAILURE_RECORD_TTL,
+	COORDINATOR_CLEANUP_INTERVAL_MS,
+	API_KEY_REVOCATION_RETENTION_MS
+} from './config';
+
+/**
+ * Durable Object that owns the account pool state.
+ * A single instance serializes every update, so failure marks, usage counters and
+ * refresh leases from concurrent isolates never overwrite each other.
+ *
+ * Storage keys:
+ * - creds:<accountId>         latest refreshed credentials, sealed by the credential vault (encrypted when keys are set)
+ * - failure:<accountId>       failure record / cooldown
+ * - usage:<date>:<accountId>  daily request and token counters
+ * - disabled:<accountId>      set while an admin keeps the account out of rotation
+ * - lease:<accountId>         token refresh lease
+ * - cursor                    round-robin cursor
+ * - keyrate:<keyId>:<minute>  API key requests in one epoch minute
+ * - keyusage:<date>:<keyId>   API key daily request and token counters
+ * - keylastused:<keyId>       when an API key last made a request
+ * - keyrevoked:<keyId>        revocation time, rejects the key before KV deletes propagate
+ * - ledger:<hour>:<key>:<account>:<model>  usage ledger bucket
+ * - metric:<series>           Prometheus counter or histogram series
+ */
+export class AccountCoordinator extends DurableObject<Env> {
+	private cleanupScheduled = false;
+
+	// In-memory copy of the failure records, the current day's usage counters and the disabled accounts,
+	// loaded with one list() each and kept in sync by every write, so selections don't read storage per account
+	private failures: Map<string, AccountFailure> | null = null;
+	private dailyUsage: { date: string; counters: Map<string, UsageCounters> } | null = null;
+	private disabledAccounts: Set<string> | null = null;
+
+	private async loadFailures(): Promise<Map<string, AccountFailure>> {
+		if (!this.failures) {
+			const failures = new Map<string, AccountFailure>();
+			for (const [key, failure] of await this.ctx.storage.list<AccountFailure>({ prefix: 'failure:' })) {
+				failures.set(key.substring('failure:'.length), failure);
+			}
+			this.failures = failures;
+		}
+		return this.failures;
+	}
+
+	private async loadDailyUsage(date: string): Promise<Map<string, UsageCounters>> {
+		if (this.dailyUsage?.date !== date) {
+			const counters = new Map<string, UsageCounters>();
+			const prefix = `usage:${date}:`;
+			for (const [key, usage] of await this.ctx.storage.list<UsageCounters>({ prefix })) {
+				counters.set(key.substring(prefix.length), usage);
+			}
+			this.dailyUsage = { date, counters };
+		}
+		return this.dailyUsage.counters;
+	}
+
+	private async loadDisabledAccounts(): Promise<Set<string>> {
+		if (!this.disabledAccounts) {
+			const keys = (await this.ctx.storage.list({ prefix: 'disabled:' })).keys();
+			this.disabledAccounts = new Set([...keys].map(key => key.substring('disabled:'.length)));
+		}
+		return this.disabledAccounts;
+	}
+
+	async getPoolStates(accountIds: string[], date: string): Promise<Record<string, PoolState>> {
+		const failures = await this.loadFailures();
+		const usage = await this.loadDailyUsage(date);
+		const disabled = await this.loadDisabledAccounts();
+
+		const states: Record<string, PoolState> = {};
+		for (const accountId of accountIds) {
+			states[accountId] = {
+				failure: failures.get(accountId) ?? null,
+				usage: usage.get(accountId) ?? EMPTY_USAGE,
+				disabled: disabled.has(accountId)
+			};
+		}
+		return states;
+	}
+
+	async getCredentials(accountId: string): Promise<SealedCredentials | null> {
+		return (await this.ctx.storage.get<SealedCredentials>(`creds:${accountId}`)) ?? null;
+	}
+
+	async saveCredentials(accountId: string, credentials: SealedCredentials): Promise<void> {
+		await this.ctx.storage.put(`creds:${accountId}`, credentials);
+	}
+
+	async getFailure(accountId: string): Promise<AccountFailure | null> {
+		return (await this.loadFailures()).get(accountId) ?? null;
+	}
+
+	private async putFailure(accountId: string, failure: AccountFailure): Promise<void> {
+		await this.ctx.storage.put(`failure:${accountId}`, failure);
+		(await this.loadFailures()).set(accountId, failure);
+	}
+
+	async recordFailure(accountId: string, reason: AccountFailureReason, errorMessage: string): Promise<AccountFailure> {
+		const failure = nextFailure(await this.getFailure(accountId), reason, errorMessage);
+		await this.putFailure(accountId, failure);
+		await this.scheduleCleanup();
+		return failure;
+	}
+
+	/**
+	 * Hand the re-admission probe for an account to exactly one caller once its cooldown has expired
+	 */
+	async claimProbe(accountId: string): Promise<boolean> {
+		const failure = await this.getFailure(accountId);
+		if (!failure || failure.cooldownUntil > Date.now()) {
+			return false;
+		}
+
+		await this.putFailure(accountId, { ...failure, cooldownUntil: Date.now() + PROBE_WINDOW_MS });
+		return true;
+	}
+
+	async clearFailure(accountId: string): Promise<void> {
+		await this.ctx.storage.delete(`failure:${accountId}`);
+		this.failures?.delete(accountId);
+	}
+
+	async getUsage(accountId: string, date: string): Promise<UsageCounters> {
+		if (this.dailyUsage?.date === date) {
+			return this.dailyUsage.counters.get(accountId) ?? EMPTY_USAGE;
+		}
+		return (await this.ctx.storage.get<UsageCounters>(`usage:${date}:${accountId}`)) ?? EMPTY_USAGE;
+	}
+
+	async recordUsage(accountId: string, date: string, usage: TokenUsage | null): Promise<void> {
+		const updated = addUsage(await this.getUsage(accountId, date), usage);
+		await this.ctx.storage.put(`usage:${date}:${accountId}`, updated);
+		if (this.dailyUsage?.date === date) {
+			this.dailyUsage.counters.set(accountId, updated);
+		}
+		await this.scheduleCleanup();
+	}
+
+	async setDisabled(accountId: string, disabled: boolean): Promise<void> {
+		const accounts = await this.loadDisabledAccounts();
+		if (disabled) {
+			await this.ctx.storage.put(`disabled:${accountId}`, true);
+			accounts.add(accountId);
+		} else {
+			await this.ctx.storage.delete(`disabled:${accountId}`);
+			accounts.delete(accountId);
+		}
+	}
+
+	async acquireRefreshLease(accountId: string): Promise<string | null> {
+		const existing = await this.ctx.storage.get<RefreshLease>(`lease:${accountId}`);
+		if (existing && existing.expiresAt > Date.now()) {
+			return null;
+		}
+
+		const lease: RefreshLease = { owner: crypto.randomUUID(), expiresAt: Date.now() + REFRESH_LEASE_MS };
+		await this.ctx.storage.put(`lease:${accountId}`, lease);
+		return lease.owner;
+	}
+
+	async releaseRefreshLease(accountId: string, owner: string): Promise<void> {
+		const lease = await this.ctx.storage.get<RefreshLease>(`lease:${accountId}`);
+		if (lease?.owner === owner) {
+			await this.ctx.storage.delete(`lease:${accountId}`);
+		}
+	}
+
+	async nextRoundRobinCursor(): Promise<number> {
+		const cursor = (await this.ctx.storage.get<number>('cursor')) ?? 0;
+		await this.ctx.storage.put('cursor', (cursor + 1) % Number.MAX_SAFE_INTEGER);
+		return cursor;
+	}
+
+	async removeAccount(accountId: string): Promise<void> {
+		await this.ctx.storage.delete([`creds:${accountId}`, `failure:${accountId}`, `lease:${accountId}`]);
+		this.failures?.delete(accountId);
+	}
+
+	/**
+	 * Check an API key's limits and count the request if it fits (null if the key was revoked)
+	 */
+	async admitApiKeyRequest(keyId: string, limits: ApiKeyLimits, requests = 1): Promise<ApiKeyAdmission | null> {
+		if (await this.ctx.storage.get(`keyrevoked:${keyId}`)) {
+			return null;
+		}
+
+		const now = Date.now();
+		const date = new Date(now).toISOString().split('T')[0];
+		const rateKey = `keyrate:${keyId}:${Math.floor(now / 60000)}`;
+		const minuteRequests = (await this.ctx.storage.get<number>(rateKey)) ?? 0;
+		const daily = await this.getApiKeyUsage(keyId, date);
+
+		const admission = evaluateAdmission(limits, minuteRequests, daily, now, requests);
+		if (admission.allowed) {
+			await this.ctx.storage.put({
+				...(limits.requestsPerMinute !== null && { [rateKey]: minuteRequests + requests }),
+				[`keyusage:${date}:${keyId}`]: addRequests(daily, requests),
+				[`keylastused:${keyId}`]: now
+			});
+			await this.scheduleCleanup();
+		}
+		return admission;
+	}
+
+	async recordApiKeyTokens(keyId: string, date: string, usage: TokenUsage): Promise<void> {
+		await this.ctx.storage.put(`keyusage:${date}:${keyId}`, addTokens(await this.getApiKeyUsage(keyId, date), usage));
+	}
+
+	async getApiKeyUsage(keyId: string, date: string): Promise<UsageCounters> {
+		return (await this.ctx.storage.get<UsageCounters>(`keyusage:${date}:${keyId}`)) ?? EMPTY_USAGE;
+	}
+
+	async getApiKeyLastUsed(keyId: string): Promise<number | null> {
+		return (await this.ctx.storage.get<number>(`keylastused:${keyId}`)) ?? null;
+	}
+
+	async revokeApiKey(keyId: string): Promise<void> {
+		await this.ctx.storage.put(`keyrevoked:${keyId}`, Date.now());
+		await this.ctx.storage.delete(`keylastused:${keyId}`);
+		await this.scheduleCleanup();
+	}
+
+	async recordLedgerEntry(entry: LedgerEntry): Promise<void> {
+		const key = `ledger:${ledgerBucketKey(ledgerBucketOf(entry))}`;
+		const current = (await this.ctx.storage.get<LedgerCounters>(key)) ?? EMPTY_LEDGER_COUNTERS;
+		await this.ctx.storage.put(key, addLedgerEntry(current, entry));
+		await this.scheduleCleanup();
+	}
+
+	/**
+	 * Ledger buckets in a date range; keys sort by hour, so only the range is read
+	 */
+	async getLedgerBuckets(query: LedgerQuery): Promise<LedgerBucket[]> {
+		const buckets: LedgerBucket[] = [];
+		const range = await this.ctx.storage.list<LedgerCounters>({ start: `ledger:${query.from}T`, end: `ledger:${query.to}U` });
+		for (const [key, counters] of range) {
+			const bucket = parseLedgerBucketKey(key.substring('ledger:'.length), counters);
+			if (matchesLedgerQuery(bucket, query)) {
+				buckets.push(bucket);
+			}
+		}
+		return buckets;
+	}
+
+	/**
+	 * Add one isolate's metric counts to the totals
+	 */
+	async addMetrics(deltas: MetricSeries): Promise<void> {
+		const keys = Object.keys(deltas).map(series => `metric:${series}`);
+
+		// get() and put() take at most 128 keys at a time
+		for (let i = 0; i < keys.length; i += 128) {
+			const batch = keys.slice(i, i + 128);
+			const current = await this.ctx.storage.get<number>(batch);
+			const updated: Record<string, number> = {};
+			for (const key of batch) {
+				updated[key] = (current.get(key) ?? 0) + deltas[key.substring('metric:'.length)];
+			}
+			await this.ctx.storage.put(updated);
+		}
+	}
+
+	async getMetrics(): Promise<MetricSeries> {
+		const series: MetricSeries = {};
+		for (const [key, value] of await this.ctx.storage.list<number>({ prefix: 'metric:' })) {
+			series[key.substring('metric:'.length)] = value;
+		}
+		return series;
+	}
+
+	/**
+	 * Make sure old usage counters and failure records get pruned
+	 */
+	private async scheduleCleanup(): Promise<void> {
+		if (this.cleanupScheduled) {
+			return;
+		}
+		if ((await this.ctx.storage.getAlarm()) === null) {
+			await this.ctx.storage.setAlarm(Date.now() + COORDINATOR_CLEANUP_INTERVAL_MS);
+		}
+		this.cleanupScheduled = true;
+	}
+
+	/**
+	 * Prune state the KV store would have expired by TTL
+	 */
+	async alarm(): Promise<void> {
+		const now = Date.now();
+		const expired: string[] = [];
+
+		const oldestUsageDate = new Date(now - USAGE_RECORD_TTL * 1000).toISOString().split('T')[0];
+		for (const prefix of ['usage:', 'keyusage:']) {
+			for (const key of (await this.ctx.storage.list({ prefix })).keys()) {
+				if (key.split(':')[1] < oldestUsageDate) {
+					expired.push(key);
+				}
+			}
+		}
+
+		const currentMinute = Math.floor(now / 60000);
+		for (const key of (await this.ctx.storage.list({ prefix: 'keyrate:' })).keys()) {
+			if (parseInt(key.substring(key.lastIndexOf(':') + 1), 10) < currentMinute) {
+				expired.push(key);
+			}
+		}
+
+		for (const key of (await this.ctx.storage.list({ start: 'ledger:', end: `ledger:${oldestLedgerDate(now)}` })).keys()) {
+			expired.push(key);
+		}
+
+		for (const [accountId, failure] of await this.loadFailures()) {
+			if (failure.lastFailureAt < now - FAILURE_RECORD_TTL * 1000) {
+				expired.push(`failure:${accountId}`);
+				this.failures?.delete(accountId);
+			}
+		}
+
+		for (const [key, revokedAt] of await this.ctx.storage.list<number>({ prefix: 'keyrevoked:' })) {
+			if (revokedAt < now - API_KEY_REVOCATION_RETENTION_MS) {
+				expired.push(key);
+			}
+		}
+
+		for (const [key, lease] of await this.ctx.storage.list<RefreshLease>({ prefix: 'lease:' })) {
+			if (lease.expiresAt < now) {
+				expired.push(key);
+			}
+		}
+
+		// delete() takes at most 128 keys at a time
+		for (let i = 0; i < expired.length; i += 128) {
+			await this.ctx.storage.delete(expired.slice(i, i + 128));
+		}
+		if (expired.length > 0) {
+			createLogger(this.env, { job: 'coordinator_cleanup' }).info('Account coordinator pruned expired entries', { count: expired.length });
+		}
+
+		await this.ctx.storage.setAlarm(now + COORDINATOR_CLEANUP_INTERVAL_MS);
+	}
+}
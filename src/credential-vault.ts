@@ -0,0 +1,281 @@
+import { Env, OAuth2Credentials } from './types';
+import { ACCOUNT_INDEX_CACHE_MS } from './config';
+
+/**
+ * Account credentials in KV (`ACCOUNT:<id>`), encrypted at rest when CREDENTIALS_ENCRYPTION_KEYS is set.
+ *
+ * Envelope encryption: every write generates a random AES-256-GCM data key that encrypts the
+ * credentials JSON, and the data key is itself encrypted with the active key-encryption key from the
+ * secret. Both are bound to the account ID, so an envelope copied to another account won't decrypt.
+ *
+ * CREDENTIALS_ENCRYPTION_KEYS is a comma-separated keyring of `<keyId>:<base64 32-byte key>`.
+ * The first key encrypts; the rest only decrypt, which lets keys be rotated while old envelopes
+ * are re-encrypted. Plaintext entries (from the setup scripts or before encryption was enabled)
+ * are still readable and are migrated by migrateStoredCredentials().
+ */
+
+export interface CredentialEnvelope {
+	v: 1;
+	kid: string; // Key-encryption key that wrapped the data key
+	key: string; // base64(iv || encrypted data key)
+	data: string; // base64(iv || encrypted credentials JSON)
+}
+
+// Credentials as written to storage: an envelope when encryption is on, plaintext otherwise
+export type SealedCredentials = OAuth2Credentials | CredentialEnvelope;
+
+export interface StoredCredentials {
+	credentials: OAuth2Credentials;
+	keyId: string | null; // null when stored as plaintext
+}
+
+// KV metadata stored alongside each ACCOUNT: value (listed without reading the value)
+interface AccountMetadata {
+	expiry_date: number;
+	kid: string | null;
+}
+
+export interface AccountIndexEntry {
+	accountId: string;
+	expiryDate: number | null; // Access token expiry; null when the entry was written without metadata
+	keyId: string | null; // Encryption key, null for plaintext (or unknown when not indexed)
+}
+
+// Account index for this isolate, shared across requests
+let indexCache: { entries: Map<string, AccountIndexEntry>; expiresAt: number } | null = null;
+
+/**
+ * Index entry for a listed ACCOUNT: key
+ */
+function toIndexEntry(key: KVNamespaceListKey<AccountMetadata>): AccountIndexEntry {
+	return {
+		accountId: key.name.substring('ACCOUNT:'.length),
+		expiryDate: typeof key.metadata?.expiry_date === 'number' ? key.metadata.expiry_date : null,
+		keyId: key.metadata?.kid ?? null
+	};
+}
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const IV_LENGTH = 12;
+
+function toBase64(bytes: Uint8Array): string {
+	let binary = '';
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+	return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+	const result = new Uint8Array(a.length + b.length);
+	result.set(a);
+	result.set(b, a.length);
+	return result;
+}
+
+function isEnvelope(value: unknown): value is CredentialEnvelope {
+	const envelope = value as Partial<CredentialEnvelope> | null;
+	return !!envelope && envelope.v === 1 && typeof envelope.kid === 'string' && typeof envelope.key === 'string' && typeof envelope.data === 'string';
+}
+
+/**
+ * AES-GCM envelope encryption with a keyring of key-encryption keys
+ */
+export class CredentialCipher {
+	readonly activeKeyId: string;
+	private keys = new Map<string, Uint8Array<ArrayBuffer>>();
+	private imported = new Map<string, Promise<CryptoKey>>();
+
+	constructor(keyring: string) {
+		for (const entry of keyring.split(',').map(part => part.trim()).filter(Boolean)) {
+			const separator = entry.indexOf(':');
+			const keyId = entry.substring(0, separator);
+			if (separator < 0 || !KEY_ID_PATTERN.test(keyId)) {
+				throw new Error('Invalid CREDENTIALS_ENCRYPTION_KEYS: expected comma-separated <keyId>:<base64 key> entries');
+			}
+
+			let key: Uint8Array<ArrayBuffer>;
+			try {
+				key = fromBase64(entry.substring(separator + 1));
+			} catch {
+				throw new Error(`Invalid CREDENTIALS_ENCRYPTION_KEYS: key '${keyId}' is not valid base64`);
+			}
+			if (key.length !== 32) {
+				throw new Error(`Invalid CREDENTIALS_ENCRYPTION_KEYS: key '${keyId}' must be 32 bytes (got ${key.length})`);
+			}
+			if (this.keys.has(keyId)) {
+				throw new Error(`Invalid CREDENTIALS_ENCRYPTION_KEYS: duplicate key ID '${keyId}'`);
+			}
+			this.keys.set(keyId, key);
+		}
+
+		const [activeKeyId] = this.keys.keys();
+		if (!activeKeyId) {
+			throw new Error('Invalid CREDENTIALS_ENCRYPTION_KEYS: no keys configured');
+		}
+		this.activeKeyId = activeKeyId;
+	}
+
+	private getKey(keyId: string): Promise<CryptoKey> {
+		const raw = this.keys.get(keyId);
+		if (!raw) {
+			throw new Error(`Unknown credential encryption key '${keyId}'. Add it back to CREDENTIALS_ENCRYPTION_KEYS to read these credentials.`);
+		}
+
+		let key = this.imported.get(keyId);
+		if (!key) {
+			key = crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+			this.imported.set(keyId, key);
+		}
+		return key;
+	}
+
+	private async seal(key: CryptoKey, plaintext: BufferSource, additionalData: BufferSource): Promise<string> {
+		const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+		const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData }, key, plaintext);
+		return toBase64(concat(iv, new Uint8Array(ciphertext)));
+	}
+
+	private async open(key: CryptoKey, sealed: string, additionalData: BufferSource): Promise<ArrayBuffer> {
+		const bytes = fromBase64(sealed);
+		return await crypto.subtle.decrypt(
+			{ name: 'AES-GCM', iv: bytes.subarray(0, IV_LENGTH), additionalData },
+			key,
+			bytes.subarray(IV_LENGTH)
+		);
+	}
+
+	async encrypt(accountId: string, credentials: OAuth2Credentials): Promise<CredentialEnvelope> {
+		const additionalData = new TextEncoder().encode(`ACCOUNT:${accountId}`);
+		const dataKeyBytes = crypto.getRandomValues(new Uint8Array(32));
+		const dataKey = await crypto.subtle.importKey('raw', dataKeyBytes, 'AES-GCM', false, ['encrypt']);
+
+		return {
+			v: 1,
+			kid: this.activeKeyId,
+			key: await this.seal(await this.getKey(this.activeKeyId), dataKeyBytes, additionalData),
+			data: await this.seal(dataKey, new TextEncoder().encode(JSON.stringify(credentials)), additionalData)
+		};
+	}
+
+	async decrypt(accountId: string, envelope: CredentialEnvelope): Promise<OAuth2Credentials> {
+		const additionalData = new TextEncoder().encode(`ACCOUNT:${accountId}`);
+		try {
+			const dataKeyBytes = await this.open(await this.getKey(envelope.kid), envelope.key, additionalData);
+			const dataKey = await crypto.subtle.importKey('raw', dataKeyBytes, 'AES-GCM', false, ['decrypt']);
+			const plaintext = await this.open(dataKey, envelope.data, additionalData);
+			return JSON.parse(new TextDecoder().decode(plaintext)) as OAuth2Credentials;
+		} catch (error) {
+			if (error instanceof Error && error.message.startsWith('Unknown credential encryption key')) {
+				throw error;
+			}
+			throw new Error(`Failed to decrypt credentials for ${accountId} with key '${envelope.kid}' (wrong key or tampered value)`);
+		}
+	}
+}
+
+/**
+ * Reads and writes `ACCOUNT:<id>` values, encrypting them when a cipher is configured.
+ * Every write also stores the expiry and key ID as KV metadata, so listing the `ACCOUNT:` prefix
+ * doubles as an account index that never touches the credential blobs.
+ */
+export class CredentialVault {
+	constructor(private kv: KVNamespace, readonly cipher: CredentialCipher | null) {}
+
+	/**
+	 * Every account with its indexed metadata, one KV list call per 1,000 accounts.
+	 * Cached in the isolate for ACCOUNT_INDEX_CACHE_MS; writes through this vault update the cache.
+	 */
+	async listAccounts(): Promise<AccountIndexEntry[]> {
+		if (indexCache && indexCache.expiresAt > Date.now()) {
+			return [...indexCache.entries.values()];
+		}
+
+		const entries = new Map<string, AccountIndexEntry>();
+		let cursor: string | undefined;
+		do {
+			const page: KVNamespaceListResult<AccountMetadata> = await this.kv.list<AccountMetadata>({ prefix: 'ACCOUNT:', cursor });
+			for (const key of page.keys) {
+				const entry = toIndexEntry(key);
+				entries.set(entry.accountId, entry);
+			}
+			cursor = page.list_complete ? undefined : page.cursor;
+		} while (cursor);
+
+		indexCache = { entries, expiresAt: Date.now() + ACCOUNT_INDEX_CACHE_MS };
+		return [...entries.values()];
+	}
+
+	/**
+	 * One page of the account index (a single KV list call, not cached). Pass the returned
+	 * cursor back for the next page; it is null after the last one.
+	 */
+	async listAccountsPage(cursor: string | undefined, limit: number): Promise<{ entries: AccountIndexEntry[]; cursor: string | null }> {
+		const page: KVNamespaceListResult<AccountMetadata> = await this.kv.list<AccountMetadata>({ prefix: 'ACCOUNT:', cursor, limit });
+		return {
+			entries: page.keys.map(toIndexEntry),
+			cursor: page.list_complete ? null : page.cursor
+		};
+	}
+
+	/**
+	 * Load credentials along with the key they are encrypted with (null for plaintext)
+	 */
+	async inspect(accountId: string): Promise<StoredCredentials | null> {
+		const stored = await this.kv.get(`ACCOUNT:${accountId}`, 'json') as SealedCredentials | null;
+		return stored ? await this.open(accountId, stored) : null;
+	}
+
+	/**
+	 * Credentials in the form they are stored in, also outside KV (e.g. the coordinator's refreshed copy)
+	 */
+	async seal(accountId: string, credentials: OAuth2Credentials): Promise<SealedCredentials> {
+		return this.cipher ? await this.cipher.encrypt(accountId, credentials) : credentials;
+	}
+
+	/**
+	 * Read a sealed value back, along with the key it was encrypted with (null for plaintext)
+	 */
+	async open(accountId: string, stored: SealedCredentials): Promise<StoredCredentials> {
+		if (!isEnvelope(stored)) {
+			return { credentials: stored, keyId: null };
+		}
+		if (!this.cipher) {
+			throw new Error(`Credentials for ${accountId} are encrypted but CREDENTIALS_ENCRYPTION_KEYS is not set`);
+		}
+		return { credentials: await this.cipher.decrypt(accountId, stored), keyId: stored.kid };
+	}
+
+	async load(accountId: string): Promise<OAuth2Credentials | null> {
+		return (await this.inspect(accountId))?.credentials ?? null;
+	}
+
+	async save(accountId: string, credentials: OAuth2Credentials): Promise<void> {
+		const sealed = await this.seal(accountId, credentials);
+		const metadata: AccountMetadata = { expiry_date: credentials.expiry_date, kid: isEnvelope(sealed) ? sealed.kid : null };
+		await this.kv.put(`ACCOUNT:${accountId}`, JSON.stringify(sealed), { metadata });
+		indexCache?.entries.set(accountId, { accountId, expiryDate: metadata.expiry_date, keyId: metadata.kid });
+	}
+
+	async delete(accountId: string): Promise<void> {
+		await this.kv.delete(`ACCOUNT:${accountId}`);
+		indexCache?.entries.delete(accountId);
+	}
+
+	/**
+	 * Whether an account's stored value should be rewritten: written without index metadata
+	 * (e.g. by the setup scripts), plaintext while encryption is on, or encrypted with a retired key
+	 */
+	needsMigration(entry: Pick<AccountIndexEntry, 'expiryDate' | 'keyId'>): boolean {
+		return entry.expiryDate === null || (!!this.cipher && entry.keyId !== this.cipher.activeKeyId);
+	}
+}
+
+export function createCredentialVault(env: Env): CredentialVault {
+	const cipher = env.CREDENTIALS_ENCRYPTION_KEYS ? new CredentialCipher(env.CREDENTIALS_ENCRYPTION_KEYS) : null;
+	return new CredentialVault(env.QWEN_TOKEN_CACHE, cipher);
+}
@@ -0,0 +1,140 @@
+import { OAuth2Credentials, DeviceCodeResponse, TokenResponse } from './types';
+import {
+	QWEN_OAUTH_DEVICE_CODE_ENDPOINT,
+	QWEN_OAUTH_TOKEN_ENDPOINT,
+	QWEN_OAUTH_CLIENT_ID,
+	QWEN_OAUTH_SCOPE,
+	QWEN_OAUTH_GRANT_TYPE
+} from './config';
+
+/**
+ * OAuth2 device authorization flow (RFC 8628) with PKCE, one request at a time.
+ * Callers keep the code verifier server-side and poll from their own loop.
+ */
+
+export interface DeviceAuthorization {
+	deviceCode: DeviceCodeResponse;
+	codeVerifier: string;
+}
+
+export type DeviceTokenPollResult =
+	| { status: 'complete'; credentials: OAuth2Credentials }
+	| { status: 'pending' }
+	| { status: 'slow_down' }
+	| { status: 'expired' }
+	| { status: 'denied' }
+	| { status: 'error'; error: string };
+
+function base64UrlEncode(bytes: Uint8Array): string {
+	let binary = '';
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Random PKCE code verifier (43 characters)
+ */
+function generateCodeVerifier(): string {
+	return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * S256 code challenge for a verifier
+ */
+async function generateCodeChallenge(codeVerifier: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+	return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Request a device code for a new authorization
+ */
+export async function startDeviceAuthorization(): Promise<DeviceAuthorization> {
+	const codeVerifier = generateCodeVerifier();
+	const codeChallenge = await generateCodeChallenge(codeVerifier);
+
+	const response = await fetch(QWEN_OAUTH_DEVICE_CODE_ENDPOINT, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/x-www-form-urlencoded',
+			Accept: 'application/json'
+		},
+		body: new URLSearchParams({
+			client_id: QWEN_OAUTH_CLIENT_ID,
+			scope: QWEN_OAUTH_SCOPE,
+			code_challenge: codeChallenge,
+			code_challenge_method: 'S256'
+		})
+	});
+
+	if (!response.ok) {
+		const errorText = await response.text();
+		throw new Error(`Device code request failed (${response.status}): ${errorText}`);
+	}
+
+	const deviceCode = await response.json() as DeviceCodeResponse;
+	if (!deviceCode.device_code || !deviceCode.user_code) {
+		throw new Error('Device code response is missing device_code or user_code');
+	}
+
+	return { deviceCode, codeVerifier };
+}
+
+/**
+ * Make a single token request for a pending device code
+ */
+export async function pollDeviceToken(deviceCode: string, codeVerifier: string): Promise<DeviceTokenPollResult> {
+	const response = await fetch(QWEN_OAUTH_TOKEN_ENDPOINT, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/x-www-form-urlencoded',
+			Accept: 'application/json'
+		},
+		body: new URLSearchParams({
+			client_id: QWEN_OAUTH_CLIENT_ID,
+			grant_type: QWEN_OAUTH_GRANT_TYPE,
+			device_code: deviceCode,
+			code_verifier: codeVerifier
+		})
+	});
+
+	if (response.ok) {
+		const tokenData = await response.json() as TokenResponse;
+		if (!tokenData.access_token || !tokenData.refresh_token) {
+			return { status: 'error', error: 'Token response is missing access_token or refresh_token' };
+		}
+
+		const resourceUrl = tokenData.resource_url || tokenData.endpoint;
+		return {
+			status: 'complete',
+			credentials: {
+				access_token: tokenData.access_token,
+				refresh_token: tokenData.refresh_token,
+				scope: tokenData.scope || '',
+				token_type: tokenData.token_type || 'Bearer',
+				id_token: '', // Not provided in device flow response
+				expiry_date: Date.now() + tokenData.expires_in * 1000,
+				...(resourceUrl && { resource_url: resourceUrl })
+			}
+		};
+	}
+
+	const errorData = await response.json().catch(() => ({})) as { error?: string; error_description?: string };
+	switch (errorData.error) {
+		case 'authorization_pending':
+			return { status: 'pending' };
+		case 'slow_down':
+			return { status: 'slow_down' };
+		case 'expired_token':
+			return { status: 'expired' };
+		case 'access_denied':
+			return { status: 'denied' };
+		default:
+			return {
+				status: 'error',
+				error: `Token poll failed (${response.status}): ${errorData.error_description || errorData.error || 'Unknown error'}`
+			};
+	}
+}
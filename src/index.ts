@@ -1,7 +1,29 @@
-import { Hono } from 'hono';
+import { Hono, Context, MiddlewareHandler } from 'hono';
+import { routePath } from 'hono/route';
 import { Env } from './types';
 import { OpenAIRoute } from './routes/openai';
+import { AnthropicRoute } from './routes/anthropic';
+import { ResponsesRoute } from './routes/responses';
+import { OllamaRoute } from './routes/ollama';
 import { DebugRoute } from './routes/debug';
+import { AdminRoute } from './routes/admin';
+import { OnboardingRoute, OnboardingPageRoute } from './routes/onboarding';
+import { KeysRoute } from './routes/keys';
+import { UsageRoute } from './routes/usage';
+import { MetricsRoute } from './routes/metrics';
+import { handleScheduled } from './scheduled';
+import {
+	KV_HEALTH_SNAPSHOT_KEY,
+	DEFAULT_MODEL,
+	HEALTH_CHECK_CACHE_TTL,
+	HEALTH_CHECK_MAX_CONCURRENCY,
+	HEALTH_CHECK_MAX_TIMEOUT_MS
+} from './config';
+import { ApiKeyStore, isModelAllowed, createApiKeyUsageStore, rateLimitHeaders } from './api-keys';
+import { isOllamaLoadRequest, normalizeOllamaModel } from './adapters/ollama';
+import { flushMetrics, incrementCounter, modelLabel } from './metrics';
+import { createLogger } from './logger';
+import { HEALTH_CHECK_MODES, HealthCheckMode, HealthCheckOptions } from './multi-auth';
 
 /**
  * Qwen Worker Proxy - OpenAI-Compatible Proxy for Qwen Models
@@ -11,8 +33,18 @@ import { DebugRoute } from './routes/debug';
  *
  * Features:
  * - OpenAI-compatible chat completions and model listing
+ * - Anthropic Messages API compatible /v1/messages endpoint
+ * - OpenAI Responses API with KV-stored conversation continuation
+ * - Ollama-compatible /api/chat, /api/generate and /api/tags endpoints
  * - OAuth2 device flow authentication with automatic token refresh
+ * - Per-API-key model allowlists, rate limits and daily budgets
+ * - Usage ledger with hourly/daily reports per key, account and model
+ * - Prometheus /metrics endpoint for request, upstream and pool metrics
+ * - Structured JSON request logs with x-request-id correlation and secret redaction
+ * - Browser-based device-flow onboarding of new pool accounts
  * - KV-based access token caching for performance
+ * - Durable Object account coordinator for consistent pool state
+ * - Scheduled handler for proactive token refresh and daily maintenance
  * - Streaming and non-streaming response support
  * - Multiple models: qwen3-coder-plus, qwen3-coder-flash, vision-model
  */
@@ -25,7 +57,8 @@ app.use('*', async (c, next) => {
 	// Set CORS headers
 	c.header('Access-Control-Allow-Origin', '*');
 	c.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS, DELETE');
-	c.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+	c.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-api-key, anthropic-version, x-request-id');
+	c.header('Access-Control-Expose-Headers', 'x-request-id');
 
 	// Handle preflight requests
 	if (c.req.method === 'OPTIONS') {
@@ -36,48 +69,200 @@ app.use('*', async (c, next) => {
 	await next();
 });
 
+// Printable ID of at most 128 characters; anything else is replaced rather than logged
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+// Give each request an ID (keeping a valid incoming x-request-id) and a logger that carries it
+app.use('*', async (c, next) => {
+	const incomingId = c.req.header('x-request-id');
+	const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+	const logger = createLogger(c.env, { request_id: requestId, method: c.req.method, path: c.req.path });
+	const startedAt = Date.now();
+	c.set('logger', logger);
+
+	await next();
+
+	c.header('x-request-id', requestId);
+	logger.info('Request completed', { route: routePath(c), status: c.res.status, duration_ms: Date.now() - startedAt });
+});
+
+/**
+ * OpenAI-style error body for the API key middleware
+ */
+function apiKeyError(message: string, type: string, code: string | null = null, param: string | null = null) {
+	return { error: { message, type, param, code } };
+}
+
+/**
+ * Model a request body asks for, as the routes will resolve it
+ */
+async function requestedModel(c: Context<{ Bindings: Env }>): Promise<string> {
+	const body = await c.req.json<{ model?: unknown; name?: unknown }>().catch(() => null);
+	const model = typeof body?.model === 'string' ? body.model : typeof body?.name === 'string' ? body.name : undefined;
+	return c.req.path.startsWith('/api/') ? normalizeOllamaModel(model) : model || DEFAULT_MODEL;
+}
+
+/**
+ * Upstream requests a request body will make: /v1/completions runs one per prompt
+ */
+async function upstreamRequestCount(c: Context<{ Bindings: Env }>): Promise<number> {
+	if (c.req.path !== '/v1/completions') {
+		return 1;
+	}
+	const body = await c.req.json<{ prompt?: unknown }>().catch(() => null);
+	return Array.isArray(body?.prompt) && body.prompt.length > 1 ? body.prompt.length : 1;
+}
+
+/**
+ * Ollama requests the routes answer without calling the Qwen API: model details and model preloads
+ */
+async function answeredLocally(c: Context<{ Bindings: Env }>): Promise<boolean> {
+	if (c.req.path === '/api/show') {
+		return true;
+	}
+	if (c.req.path !== '/api/chat' && c.req.path !== '/api/generate') {
+		return false;
+	}
+	const body = await c.req.json().catch(() => null);
+	return isOllamaLoadRequest(c.req.path === '/api/chat' ? 'chat' : 'generate', body);
+}
+
+// Count API requests for /metrics, then merge this isolate's metrics into the shared store
+const requestMetrics: MiddlewareHandler<{ Bindings: Env }> = async (c, next) => {
+	const model = c.req.method === 'POST' ? modelLabel(await requestedModel(c)) : '';
+
+	await next();
+
+	// routePath() now names the handler that responded, e.g. /v1/responses/:responseId
+	incrementCounter('qwen_proxy_requests_total', { route: routePath(c), status: String(c.res.status), model });
+	c.executionCtx.waitUntil(flushMetrics(c.env, c.get('logger')));
+};
+
 // Multi-API key authentication middleware
-app.use('/v1/*', async (c, next) => {
+const apiKeyAuth: MiddlewareHandler<{ Bindings: Env }> = async (c, next) => {
 	// Support both new OPENAI_API_KEYS and legacy OPENAI_API_KEY
 	const apiKeys = c.env.OPENAI_API_KEYS || c.env.OPENAI_API_KEY;
-	
-	if (apiKeys) {
-		const authHeader = c.req.header('Authorization');
-		
-		if (!authHeader || !authHeader.startsWith('Bearer ')) {
-			return c.json(
-				{
-					error: {
-						message: 'Missing or invalid Authorization header',
-						type: 'authentication_error'
-					}
-				},
-				401
-			);
+	const validKeys = apiKeys ? apiKeys.split(',').map(key => key.trim()) : [];
+
+	const authHeader = c.req.header('Authorization');
+	// Anthropic clients send the key in x-api-key instead of a Bearer token
+	const apiKeyHeader = c.req.header('x-api-key');
+	const providedKey = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : apiKeyHeader; // Remove 'Bearer ' prefix
+
+	// Env keys have no limits
+	if (providedKey && validKeys.includes(providedKey)) {
+		await next();
+		return;
+	}
+
+	const keyStore = new ApiKeyStore(c.env.QWEN_TOKEN_CACHE);
+	const record = providedKey ? await keyStore.find(providedKey) : null;
+	if (!record) {
+		// Open only until API keys are configured, in env or as records (even if all were revoked since)
+		if (!apiKeys && !(await keyStore.isConfigured())) {
+			await next();
+			return;
 		}
-		
-		const providedKey = authHeader.substring(7); // Remove 'Bearer ' prefix
-		const validKeys = apiKeys.split(',').map(key => key.trim());
-		
-		if (!validKeys.includes(providedKey)) {
-			return c.json(
-				{
-					error: {
-						message: 'Invalid API key',
-						type: 'authentication_error'
-					}
-				},
-				401
-			);
+		if (!providedKey) {
+			return c.json(apiKeyError('Missing or invalid Authorization header', 'authentication_error'), 401);
+		}
+		return c.json(apiKeyError('Invalid API key', 'authentication_error', 'invalid_api_key'), 401);
+	}
+	c.set('apiKey', record);
+	c.get('logger').set({ key_id: record.id });
+
+	// Only requests that reach a model are checked against the allowlist and counted
+	if (c.req.method !== 'POST' || await answeredLocally(c)) {
+		await next();
+		return;
+	}
+
+	const model = await requestedModel(c);
+	if (!isModelAllowed(record, model)) {
+		return c.json(apiKeyError(`API key '${record.name || record.id}' is not allowed to use model '${model}'`, 'invalid_request_error', 'model_not_allowed', 'model'), 403);
+	}
+
+	const usageStore = createApiKeyUsageStore(c.env, c.get('logger'));
+	const admission = await usageStore.admit(record.id, record, await upstreamRequestCount(c));
+	if (!admission) {
+		return c.json(apiKeyError('API key has been revoked', 'authentication_error', 'invalid_api_key'), 401);
+	}
+	const headers = rateLimitHeaders(admission);
+
+	if (admission.exceeded) {
+		const { limit, window } = admission.exceeded;
+		const retryAfter = Math.max(1, Math.ceil((window.resetAt - Date.now()) / 1000));
+		const limitText = {
+			requests_per_minute: 'requests per minute (RPM)',
+			daily_requests: 'requests per day (RPD)',
+			daily_tokens: 'tokens per day (TPD)'
+		}[limit];
+
+		c.get('logger').warn('API key rate limited', { limit });
+		return c.json(
+			apiKeyError(
+				`Rate limit reached for API key '${record.name || record.id}' on ${limitText}: Limit ${window.limit}. Please try again in ${retryAfter}s.`,
+				limit === 'daily_tokens' ? 'tokens' : 'requests',
+				'rate_limit_exceeded'
+			),
+			429,
+			{ ...headers, 'Retry-After': String(retryAfter) }
+		);
+	}
+
+	c.set('recordApiKeyUsage', async (usage) => {
+		try {
+			await usageStore.recordTokens(record.id, new Date().toISOString().split('T')[0], usage);
+		} catch (error) {
+			c.get('logger').error('Failed to record API key token usage', { error });
 		}
+	});
+
+	await next();
+
+	for (const [name, value] of Object.entries(headers)) {
+		c.header(name, value);
+	}
+};
+
+// Admin authentication middleware
+const adminAuth: MiddlewareHandler<{ Bindings: Env }> = async (c, next) => {
+	if (!c.env.ADMIN_SECRET_KEY) {
+		return c.json({ error: 'Admin endpoint not configured' }, 503);
 	}
-	
+
+	const authHeader = c.req.header('Authorization');
+	if (!authHeader || !authHeader.startsWith('Bearer ')) {
+		return c.json({ error: 'Missing Authorization header' }, 401);
+	}
+
+	const providedKey = authHeader.substring(7);
+	if (providedKey !== c.env.ADMIN_SECRET_KEY) {
+		return c.json({ error: 'Invalid admin key' }, 401);
+	}
+
 	await next();
-});
+};
+
+app.use('/v1/*', requestMetrics);
+app.use('/api/*', requestMetrics);
+app.use('/v1/*', apiKeyAuth);
+app.use('/api/*', apiKeyAuth);
+app.use('/admin/*', adminAuth);
+app.use('/metrics', adminAuth);
 
 // Setup route handlers
 app.route('/v1', OpenAIRoute);
+app.route('/v1', AnthropicRoute);
+app.route('/v1', ResponsesRoute);
 app.route('/v1/debug', DebugRoute);
+app.route('/api', OllamaRoute);
+app.route('/admin', AdminRoute);
+app.route('/admin/onboarding', OnboardingRoute);
+app.route('/admin/keys', KeysRoute);
+app.route('/admin/usage', UsageRoute);
+app.route('/metrics', MetricsRoute);
+app.route('/onboard', OnboardingPageRoute);
 
 // Add individual debug routes to main app for backward compatibility
 app.route('/debug', DebugRoute);
@@ -96,7 +281,16 @@ app.get('/', (c) => {
 		},
 		endpoints: {
 			chat_completions: '/v1/chat/completions',
+			completions: '/v1/completions',
+			messages: '/v1/messages',
+			responses: '/v1/responses',
 			models: '/v1/models',
+			onboarding: '/onboard',
+			ollama: {
+				chat: '/api/chat',
+				generate: '/api/generate',
+				tags: '/api/tags'
+			},
 			debug: {
 				token_status: '/v1/debug/token',
 				auth_test: '/v1/debug/auth/test',
@@ -118,29 +312,63 @@ app.get('/health', (c) => {
 	});
 });
 
-// Admin health check endpoint for multi-account status
-app.get('/admin/health', async (c) => {
-	// Require admin authentication
-	if (!c.env.ADMIN_SECRET_KEY) {
-		return c.json({ error: 'Admin endpoint not configured' }, 503);
+// Latest snapshot recorded by the scheduled handler (no upstream requests)
+app.get('/admin/health/snapshot', async (c) => {
+	const snapshot = await c.env.QWEN_TOKEN_CACHE.get(KV_HEALTH_SNAPSHOT_KEY, 'json');
+	if (!snapshot) {
+		return c.json({ error: 'No snapshot recorded yet. Is the cron trigger configured?' }, 404);
 	}
+	return c.json(snapshot);
+});
 
-	const authHeader = c.req.header('Authorization');
-	if (!authHeader || !authHeader.startsWith('Bearer ')) {
-		return c.json({ error: 'Missing Authorization header' }, 401);
+/**
+ * Check /admin/health's query parameters; returns the options that were set or an error message
+ */
+function parseHealthCheckParams(params: Record<string, string>): Partial<HealthCheckOptions> | string {
+	const options: Partial<HealthCheckOptions> = {};
+
+	if (params.mode !== undefined) {
+		if (!HEALTH_CHECK_MODES.includes(params.mode as HealthCheckMode)) {
+			return `mode must be one of ${HEALTH_CHECK_MODES.join(', ')}`;
+		}
+		options.mode = params.mode as HealthCheckMode;
 	}
 
-	const providedKey = authHeader.substring(7);
-	if (providedKey !== c.env.ADMIN_SECRET_KEY) {
-		return c.json({ error: 'Invalid admin key' }, 401);
+	const limits = [
+		['max_age', 'maxAge', 0, HEALTH_CHECK_CACHE_TTL],
+		['concurrency', 'concurrency', 1, HEALTH_CHECK_MAX_CONCURRENCY],
+		['timeout_ms', 'timeoutMs', 1000, HEALTH_CHECK_MAX_TIMEOUT_MS]
+	] as const;
+	for (const [param, option, min, max] of limits) {
+		if (params[param] === undefined) {
+			continue;
+		}
+		const value = Number(params[param]);
+		if (!Number.isInteger(value) || value < min || value > max) {
+			return `${param} must be an integer between ${min} and ${max}`;
+		}
+		options[option] = value;
+	}
+
+	return options;
+}
+
+// Admin health check endpoint for multi-account status
+// (?mode=credentials|probe|completion&max_age=<seconds>&concurrency=&timeout_ms=)
+app.get('/admin/health', async (c) => {
+	const options = parseHealthCheckParams(c.req.query());
+	if (typeof options === 'string') {
+		return c.json({ error: options }, 400);
 	}
 
 	try {
 		const { MultiAccountAuthManager } = await import('./multi-auth');
-		const authManager = new MultiAccountAuthManager(c.env);
+		const authManager = new MultiAccountAuthManager(c.env, c.get('logger'));
 		
-		const accountsHealth = await authManager.getAccountsHealth();
-		const failedAccounts = await authManager.getFailedAccounts();
+		const report = await authManager.getAccountsHealth(options);
+		const accountsHealth = report.accounts;
+		// From the report, so a cached report costs no per-account reads
+		const failedAccounts = accountsHealth.filter(a => a.isFailed).map(a => a.account);
 		
 		// Summary statistics
 		const totalAccounts = accountsHealth.length;
@@ -149,6 +377,8 @@ app.get('/admin/health', async (c) => {
 		const quotaExceededAccounts = accountsHealth.filter(a => a.status === 'quota_exceeded').length;
 		const errorAccounts = accountsHealth.filter(a => a.status === 'error').length;
 		const missingCredentialsAccounts = accountsHealth.filter(a => a.status === 'missing_credentials').length;
+		const requestsToday = accountsHealth.reduce((sum, a) => sum + (a.requestsToday || 0), 0);
+		const remainingRequests = accountsHealth.reduce((sum, a) => sum + (a.remainingRequests || 0), 0);
 
 		// Generate pretty ASCII table for accounts
 		const accountsTable = accountsHealth.map(account => {
@@ -173,7 +403,9 @@ app.get('/admin/health', async (c) => {
 ║ ❌ Error:              ${errorAccounts.toString().padEnd(40)} ║
 ║ ⚠️  Quota Exceeded:    ${quotaExceededAccounts.toString().padEnd(40)} ║
 ║ ❓ Missing Creds:      ${missingCredentialsAccounts.toString().padEnd(40)} ║
-║ 🚫 Failed Today:      ${failedAccountsCount.toString().padEnd(40)} ║
+║ 🚫 Cooling Down:      ${failedAccountsCount.toString().padEnd(40)} ║
+║ 📈 Requests Today:    ${requestsToday.toString().padEnd(40)} ║
+║ 🔋 Remaining Today:   ${remainingRequests.toString().padEnd(40)} ║
 ║ Failed Accounts List: ${(failedAccounts.length > 0 ? failedAccounts.join(', ') : 'None').padEnd(40)} ║
 ╟────────────────────────────────────────────────────────────────────╢
 ║ 📋 ACCOUNT STATUS DETAILS                                            ║
@@ -182,8 +414,8 @@ app.get('/admin/health', async (c) => {
 ╠══════════════════════════════════════════════════════════════════╣
 ${accountsTable}
 ╚══════════════════════════════════════════════════════════════════╝
-🕒 Last Updated: ${new Date().toISOString()}
-🔧 Proxy-based health check (tests exact same path as users)`.trim();
+🕒 Checked At: ${report.checkedAt}${report.cached ? ' (cached)' : ''}
+🔧 Mode: ${report.mode}`.trim();
 
 		// Return JSON for API consumers
 		const jsonResponse = {
@@ -194,8 +426,13 @@ ${accountsTable}
 				quota_exceeded_accounts: quotaExceededAccounts,
 				error_accounts: errorAccounts,
 				missing_credentials_accounts: missingCredentialsAccounts,
-				failed_accounts_list: failedAccounts
+				failed_accounts_list: failedAccounts,
+				requests_today: requestsToday,
+				remaining_requests_today: remainingRequests
 			},
+			mode: report.mode,
+			cached: report.cached,
+			checked_at: report.checkedAt,
 			accounts: accountsHealth,
 			timestamp: new Date().toISOString()
 		};
@@ -212,7 +449,7 @@ ${accountsTable}
 			return c.json(jsonResponse);
 		}
 	} catch (error) {
-		console.error('Health check failed:', error);
+		c.get('logger').error('Health check failed', { error });
 		const errorOutput = `
 ╔══════════════════════════════════════════════════════════════════╗
 ║                         ❌ HEALTH CHECK FAILED                    ║
@@ -237,4 +474,12 @@ ${accountsTable}
 	}
 });
 
-export default app;
+export default {
+	fetch: app.fetch,
+	scheduled(controller, env, ctx) {
+		ctx.waitUntil(handleScheduled(controller, env).finally(() => flushMetrics(env, createLogger(env, { job: 'scheduled', cron: controller.cron }), true)));
+	}
+} satisfies ExportedHandler<Env>;
+
+// Durable Object classes must be exported from the entry module
+export { AccountCoordinator } from './coordinator';
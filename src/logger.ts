@@ -0,0 +1,133 @@
+import { Env } from './types';
+
+/**
+ * Structured logging: one JSON object per line, carrying the request ID and whatever the request
+ * has learned so far (route, model, account) on every line.
+ *
+ * Fields named like credentials are replaced with "[redacted]", and prompt and completion content
+ * (messages, prompt, input, ...) is reduced to its size unless LOG_PROMPTS is 'true'. Bearer tokens
+ * and sk- keys inside strings, e.g. echoed back in upstream errors, are masked too.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+declare module 'hono' {
+	interface ContextVariableMap {
+		logger: Logger; // Request-scoped logger, set for every request
+	}
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const SECRET_FIELD_PATTERN = /^(authorization|x-api-key|api_?key|access_token|refresh_token|id_token|token|secret|password|cookie|credentials)$/i;
+const CONTENT_FIELDS = new Set(['messages', 'prompt', 'input', 'instructions', 'system', 'content', 'text', 'suffix']);
+const SECRET_STRING_PATTERNS: [RegExp, string][] = [
+	[/Bearer\s+[^\s"',]+/gi, 'Bearer [redacted]'],
+	[/\bsk-[A-Za-z0-9_-]{8,}/g, 'sk-[redacted]']
+];
+
+function redactString(value: string): string {
+	return SECRET_STRING_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+}
+
+/**
+ * Size of prompt or completion content, logged in place of the content
+ */
+function summarizeContent(value: unknown): unknown {
+	if (typeof value === 'string') {
+		return `[${value.length} chars]`;
+	}
+	if (Array.isArray(value)) {
+		return `[${value.length} items]`;
+	}
+	return value === null || value === undefined ? value : '[redacted]';
+}
+
+function redact(value: unknown, logPrompts: boolean, field?: string): unknown {
+	if (field !== undefined && SECRET_FIELD_PATTERN.test(field)) {
+		return '[redacted]';
+	}
+	if (field !== undefined && !logPrompts && CONTENT_FIELDS.has(field)) {
+		return summarizeContent(value);
+	}
+	if (value instanceof Error) {
+		return { name: value.name, message: redactString(value.message) };
+	}
+	if (typeof value === 'string') {
+		return redactString(value);
+	}
+	if (Array.isArray(value)) {
+		return value.map(item => redact(item, logPrompts));
+	}
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redact(item, logPrompts, key)]));
+	}
+	return value;
+}
+
+export class Logger {
+	constructor(private level: LogLevel, private logPrompts: boolean, private fields: LogFields = {}) {}
+
+	/**
+	 * A logger that adds `fields` to every line, on top of this one's
+	 */
+	child(fields: LogFields): Logger {
+		return new Logger(this.level, this.logPrompts, { ...this.fields, ...fields });
+	}
+
+	/**
+	 * Add context to every later line of this logger (e.g. the account once one is selected)
+	 */
+	set(fields: LogFields): void {
+		Object.assign(this.fields, fields);
+	}
+
+	debug(message: string, fields?: LogFields): void {
+		this.write('debug', message, fields);
+	}
+
+	info(message: string, fields?: LogFields): void {
+		this.write('info', message, fields);
+	}
+
+	warn(message: string, fields?: LogFields): void {
+		this.write('warn', message, fields);
+	}
+
+	error(message: string, fields?: LogFields): void {
+		this.write('error', message, fields);
+	}
+
+	private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+		if (LEVELS[level] < LEVELS[this.level]) {
+			return;
+		}
+
+		const line = JSON.stringify({
+			time: new Date().toISOString(),
+			level,
+			message: redactString(message),
+			...(redact({ ...this.fields, ...fields }, this.logPrompts) as LogFields)
+		});
+
+		if (level === 'error') {
+			console.error(line);
+		} else if (level === 'warn') {
+			console.warn(line);
+		} else if (level === 'debug') {
+			console.debug(line);
+		} else {
+			console.log(line);
+		}
+	}
+}
+
+/**
+ * Logger configured from LOG_LEVEL and LOG_PROMPTS
+ */
+export function createLogger(env: Env, fields: LogFields = {}): Logger {
+	const level = (env.LOG_LEVEL || '').toLowerCase();
+	return new Logger(level in LEVELS ? level as LogLevel : 'info', env.LOG_PROMPTS === 'true', fields);
+}
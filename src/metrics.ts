@@ -0,0 +1,248 @@
+import { Env } from './types';
+import type { AccountCoordinator } from './coordinator';
+import type { AccountSummary } from './multi-auth';
+import type { Logger } from './logger';
+import { KV_METRICS_KEY, METRICS_KV_FLUSH_INTERVAL_MS, UPSTREAM_LATENCY_BUCKETS, MODEL_IDS, ACCOUNT_COORDINATOR_NAME } from './config';
+
+/**
+ * Prometheus metrics for /metrics.
+ *
+ * Counters and histograms are accumulated per isolate and merged into a shared store after each
+ * request, so a scrape sees every isolate's counts: the AccountCoordinator when it is bound,
+ * otherwise a single KV value that each isolate merges into at most every 10 seconds (concurrent
+ * merges can lose counts). Pool gauges come from the latest scheduled health snapshot.
+ */
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export type MetricLabels = Record<string, string>;
+
+// Series values keyed by their exposition line prefix, e.g. `qwen_proxy_retries_total{phase="request"}`
+export type MetricSeries = Record<string, number>;
+
+const METRICS = {
+	qwen_proxy_requests_total: { type: 'counter', help: 'API requests handled, by route, status and model' },
+	qwen_proxy_upstream_duration_seconds: { type: 'histogram', help: 'Time until the Qwen API returned response headers, by model and status' },
+	qwen_proxy_retries_total: { type: 'counter', help: 'Completions retried after an upstream failure, by phase (request or stream failover)' },
+	qwen_proxy_account_switches_total: { type: 'counter', help: 'Switches to another account after an upstream failure, by phase' },
+	qwen_proxy_token_refreshes_total: { type: 'counter', help: 'OAuth access token refreshes, by result' },
+	qwen_proxy_accounts: { type: 'gauge', help: 'Accounts in the pool, by state' },
+	qwen_proxy_account_state: { type: 'gauge', help: 'Current state of each account (1 for its state, 0 otherwise)' },
+	qwen_proxy_account_token_expiry_minutes: { type: 'gauge', help: 'Minutes until the account access token expires (negative once expired)' },
+	qwen_proxy_account_requests_today: { type: 'gauge', help: 'Requests served by the account this UTC day' },
+	qwen_proxy_account_snapshot_timestamp_seconds: { type: 'gauge', help: 'When the snapshot the account gauges come from was taken' }
+} as const satisfies Record<string, { type: MetricType; help: string }>;
+
+type MetricName = keyof typeof METRICS;
+
+export const ACCOUNT_STATES = ['healthy', 'cooling_down', 'failed', 'disabled'] as const;
+
+// Counts not yet merged into the store, per isolate
+let pending: MetricSeries = {};
+let lastFlushAt = 0;
+
+function escapeLabelValue(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function seriesKey(name: string, labels: MetricLabels): string {
+	const pairs = Object.entries(labels).map(([label, value]) => `${label}="${escapeLabelValue(value)}"`);
+	return pairs.length > 0 ? `${name}{${pairs.join(',')}}` : name;
+}
+
+function add(series: MetricSeries, key: string, value: number): void {
+	series[key] = (series[key] ?? 0) + value;
+}
+
+/**
+ * Model label value; client-supplied names outside /v1/models are grouped as `other`
+ */
+export function modelLabel(model: string): string {
+	return MODEL_IDS.includes(model) ? model : 'other';
+}
+
+export function incrementCounter(name: MetricName, labels: MetricLabels = {}, value = 1): void {
+	add(pending, seriesKey(name, labels), value);
+}
+
+/**
+ * Add an observation (in seconds) to a histogram's cumulative buckets, sum and count
+ */
+export function observeHistogram(name: MetricName, labels: MetricLabels, seconds: number): void {
+	for (const bound of UPSTREAM_LATENCY_BUCKETS) {
+		if (seconds <= bound) {
+			add(pending, seriesKey(`${name}_bucket`, { ...labels, le: String(bound) }), 1);
+		}
+	}
+	add(pending, seriesKey(`${name}_bucket`, { ...labels, le: '+Inf' }), 1);
+	add(pending, seriesKey(`${name}_sum`, labels), seconds);
+	add(pending, seriesKey(`${name}_count`, labels), 1);
+}
+
+export interface MetricsStore {
+	readonly flushIntervalMs: number; // Minimum time between merges from one isolate
+	add(deltas: MetricSeries): Promise<void>;
+	getAll(): Promise<MetricSeries>;
+}
+
+export class KVMetricsStore implements MetricsStore {
+	readonly flushIntervalMs = METRICS_KV_FLUSH_INTERVAL_MS;
+
+	constructor(private kv: KVNamespace) {}
+
+	async add(deltas: MetricSeries): Promise<void> {
+		const current = await this.getAll();
+		for (const [key, value] of Object.entries(deltas)) {
+			add(current, key, value);
+		}
+		await this.kv.put(KV_METRICS_KEY, JSON.stringify(current));
+	}
+
+	async getAll(): Promise<MetricSeries> {
+		return ((await this.kv.get(KV_METRICS_KEY, 'json')) as MetricSeries | null) ?? {};
+	}
+}
+
+export class CoordinatorMetricsStore implements MetricsStore {
+	readonly flushIntervalMs = 0;
+	private coordinator: DurableObjectStub<AccountCoordinator>;
+
+	constructor(namespace: NonNullable<Env['ACCOUNT_COORDINATOR']>) {
+		this.coordinator = namespace.get(namespace.idFromName(ACCOUNT_COORDINATOR_NAME));
+	}
+
+	async add(deltas: MetricSeries): Promise<void> {
+		await this.coordinator.addMetrics(deltas);
+	}
+
+	async getAll(): Promise<MetricSeries> {
+		return await this.coordinator.getMetrics();
+	}
+}
+
+/**
+ * Use the coordinator when it is bound, falling back to plain KV like the pool store
+ */
+export function createMetricsStore(env: Env): MetricsStore {
+	if (env.ACCOUNT_COORDINATOR) {
+		return new CoordinatorMetricsStore(env.ACCOUNT_COORDINATOR);
+	}
+	return new KVMetricsStore(env.QWEN_TOKEN_CACHE);
+}
+
+/**
+ * Merge this isolate's pending counts into the store (unless it was done within the store's
+ * flush interval, or `force`). Counts go back to pending if the store can't be reached.
+ */
+export async function flushMetrics(env: Env, logger: Logger, force = false): Promise<void> {
+	const store = createMetricsStore(env);
+	if (Object.keys(pending).length === 0 || (!force && Date.now() - lastFlushAt < store.flushIntervalMs)) {
+		return;
+	}
+
+	const deltas = pending;
+	pending = {};
+	lastFlushAt = Date.now();
+	try {
+		await store.add(deltas);
+	} catch (error) {
+		logger.error('Failed to flush metrics', { error });
+		for (const [key, value] of Object.entries(deltas)) {
+			add(pending, key, value);
+		}
+	}
+}
+
+/**
+ * Which of ACCOUNT_STATES an account is in
+ */
+export function accountState(summary: AccountSummary): typeof ACCOUNT_STATES[number] {
+	if (summary.disabled) {
+		return 'disabled';
+	}
+	if (summary.isFailed) {
+		return summary.failure?.reason === 'auth_failed' ? 'failed' : 'cooling_down';
+	}
+	return 'healthy';
+}
+
+/**
+ * Pool gauges from a health snapshot's account summaries (token expiry is counted down to `now`)
+ */
+export function accountGauges(accounts: AccountSummary[], snapshotAt: number, now: number = Date.now()): MetricSeries {
+	const series: MetricSeries = { qwen_proxy_account_snapshot_timestamp_seconds: Math.floor(snapshotAt / 1000) };
+	for (const state of ACCOUNT_STATES) {
+		series[seriesKey('qwen_proxy_accounts', { state })] = accounts.filter(account => accountState(account) === state).length;
+	}
+
+	for (const account of accounts) {
+		const current = accountState(account);
+		for (const state of ACCOUNT_STATES) {
+			series[seriesKey('qwen_proxy_account_state', { account: account.account, state })] = state === current ? 1 : 0;
+		}
+		if (account.expiresAt) {
+			series[seriesKey('qwen_proxy_account_token_expiry_minutes', { account: account.account })] = Math.floor((Date.parse(account.expiresAt) - now) / 60000);
+		}
+		series[seriesKey('qwen_proxy_account_requests_today', { account: account.account })] = account.requestsToday;
+	}
+	return series;
+}
+
+/**
+ * Metric family a series belongs to (histogram series carry a _bucket, _sum or _count suffix)
+ */
+function familyOf(key: string): MetricName | null {
+	const name = key.split('{')[0];
+	if (name in METRICS) {
+		return name as MetricName;
+	}
+	const family = name.replace(/_(bucket|sum|count)$/, '');
+	return family in METRICS ? family as MetricName : null;
+}
+
+/**
+ * Order series by label set, then histogram suffix, then bucket bound, so each label set's
+ * buckets are contiguous and ascending with +Inf last
+ */
+function compareSeries(a: string, b: string): number {
+	const parse = (key: string) => {
+		const [name, labels = ''] = key.split('{');
+		const le = labels.match(/(?:^|,)le="([^"]*)"/)?.[1];
+		return { name, labels: labels.replace(/,?le="[^"]*"/, ''), le: le === undefined ? 0 : le === '+Inf' ? Infinity : parseFloat(le) };
+	};
+	const left = parse(a);
+	const right = parse(b);
+	return left.labels.localeCompare(right.labels) || left.name.localeCompare(right.name) || left.le - right.le;
+}
+
+/**
+ * Render series in the Prometheus text format, or OpenMetrics when `openMetrics` is set
+ */
+export function renderMetrics(series: MetricSeries, openMetrics: boolean): string {
+	const families = new Map<MetricName, string[]>();
+	for (const key of Object.keys(series).sort(compareSeries)) {
+		const family = familyOf(key);
+		if (family) {
+			families.set(family, [...(families.get(family) ?? []), key]);
+		}
+	}
+
+	const lines: string[] = [];
+	for (const name of Object.keys(METRICS) as MetricName[]) {
+		const keys = families.get(name);
+		if (!keys) {
+			continue;
+		}
+		const { type, help } = METRICS[name];
+		// OpenMetrics names a counter family without its _total suffix
+		const familyName = openMetrics && type === 'counter' ? name.replace(/_total$/, '') : name;
+		lines.push(`# HELP ${familyName} ${help}`, `# TYPE ${familyName} ${type}`);
+		for (const key of keys) {
+			lines.push(`${key} ${series[key]}`);
+		}
+	}
+	if (openMetrics) {
+		lines.push('# EOF');
+	}
+	return `${lines.join('\n')}\n`;
+}
@@ -1,112 +1,447 @@
-import { Env, OAuth2Credentials } from './types';
-import { QWEN_OAUTH_CLIENT_ID } from './config';
+import { Env, OAuth2Credentials, TokenUsage } from './types';
+import {
+	QWEN_OAUTH_CLIENT_ID,
+	QWEN_DAILY_REQUEST_LIMIT,
+	USAGE_NEAR_LIMIT_RATIO,
+	TOKEN_BUFFER_TIME,
+	REFRESH_POLL_INTERVAL_MS,
+	REFRESH_WAIT_TIMEOUT_MS,
+	KV_SELECTION_STRATEGY_KEY,
+	KV_ACCOUNT_PRIORITIES_KEY,
+	KV_DISABLED_ACCOUNTS_KEY,
+	SELECTION_SAMPLE_SIZE,
+	LEDGER_HEALTH_CHECK_LABEL,
+	KV_HEALTH_CHECK_PREFIX,
+	HEALTH_CHECK_CACHE_TTL,
+	HEALTH_CHECK_DEFAULT_MAX_AGE,
+	HEALTH_CHECK_CONCURRENCY,
+	HEALTH_CHECK_TIMEOUT_MS,
+	POOL_STATE_BATCH_SIZE
+} from './config';
+import { AccountCandidate, AccountSelectionStrategy, createSelectionStrategy, parseAccountPriorities } from './selection';
+import { PoolState, EMPTY_USAGE, PoolStore, UsageCounters, createPoolStore } from './pool-store';
+import { AccountIndexEntry, CredentialVault, createCredentialVault } from './credential-vault';
+import { incrementCounter } from './metrics';
+import { Logger, createLogger } from './logger';
+
+// Token refreshes in flight in this isolate, keyed by account ID (joined with a bounded wait)
+const inflightRefreshes = new Map<string, Promise<OAuth2Credentials>>();
+
+// Whether this isolate has checked for the legacy DISABLED_ACCOUNTS list (and moved it into the pool store)
+let legacyDisabledMigrated = false;
+
+// Refresh errors that mean the refresh token is no longer accepted
+const REVOKED_REFRESH_PATTERN = /invalid_grant|invalid_token|revoked/i;
+
+/**
+ * Pick `size` accounts uniformly at random (partial Fisher-Yates shuffle)
+ */
+function sampleAccounts<T>(items: T[], size: number): T[] {
+	const shuffled = [...items];
+	for (let i = 0; i < size && i < shuffled.length - 1; i++) {
+		const j = i + Math.floor(Math.random() * (shuffled.length - i));
+		[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+	}
+	return shuffled.slice(0, size);
+}
+
+/**
+ * Map `items` through `fn` with at most `limit` calls running at once, keeping their order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index]);
+		}
+	});
+	await Promise.all(workers);
+	return results;
+}
+
+/**
+ * Time left on an access token, as shown in account listings
+ */
+function formatExpiresIn(expiryDate: number | null, now: number = Date.now()): string {
+	if (expiryDate === null) {
+		return 'unknown';
+	}
+	return expiryDate < now ? 'expired' : `${Math.floor((expiryDate - now) / 60000)} min`;
+}
+
+/**
+ * Health check status for a failed check, from its error message
+ */
+function classifyHealthCheckError(errorMessage: string): Pick<AccountHealth, 'status' | 'apiStatus'> {
+	// Status codes are matched as whole numbers, so e.g. "timed out after 15000ms" isn't a 500
+	if (/\b429\b/.test(errorMessage) || errorMessage.includes('quota')) {
+		return { status: 'quota_exceeded', apiStatus: 429 };
+	}
+	if (/\b401\b/.test(errorMessage) || errorMessage.includes('unauthorized')) {
+		return { status: 'error', apiStatus: 401 };
+	}
+	if (/\b(500|502|504)\b/.test(errorMessage)) {
+		return { status: 'error', apiStatus: 500 };
+	}
+	return { status: 'error', apiStatus: 0 };
+}
 
 /**
  * Multi-account authentication manager for Qwen API.
- * Supports probability-based account selection and failure handling.
+ * Supports pluggable account selection strategies and failure handling.
  */
 export class MultiAccountAuthManager {
 	private env: Env;
 	private selectedAccount: string | null = null;
 	private selectedCredentials: OAuth2Credentials | null = null;
 	private forcedAccount: string | null = null; // For health checks
+	private probeAccount: string | null = null; // Account selected as a re-admission probe
+	private store: PoolStore; // Failures, usage, leases and refreshed credentials
+	private vault: CredentialVault; // Account credentials in KV, encrypted when a key is configured
+	public logger: Logger; // Replaced with the request's logger by QwenAPIClient
 
-	constructor(env: Env) {
+	constructor(env: Env, logger: Logger = createLogger(env)) {
 		this.env = env;
+		this.logger = logger;
+		this.vault = createCredentialVault(env);
+		this.store = createPoolStore(env, this.vault);
 	}
 
 	/**
-	 * Get all account IDs from KV storage
+	 * Get the account index (every account with its cached token expiry) from KV
 	 */
-	private async getAllAccountIds(): Promise<string[]> {
+	private async getAccountIndex(): Promise<AccountIndexEntry[]> {
 		try {
-			console.log('DEBUG: Attempting to list accounts with prefix ACCOUNT:');
-			// List all keys with ACCOUNT: prefix
-			const list = await this.env.QWEN_TOKEN_CACHE.list({ prefix: 'ACCOUNT:' });
-			console.log('DEBUG: KV list result:', JSON.stringify(list));
-			const accountIds = list.keys.map(key => key.name.replace('ACCOUNT:', ''));
-			console.log('DEBUG: Extracted account IDs:', accountIds);
-			return accountIds;
+			return await this.vault.listAccounts();
 		} catch (error) {
-			console.error('DEBUG: Failed to list accounts:', error);
+			this.logger.error('Failed to list accounts', { error });
 			return [];
 		}
 	}
 
 	/**
-	 * Get failed accounts list from KV
-	 * Automatically resets the list if it's a new UTC day
+	 * Get all account IDs from KV storage (including disabled accounts)
+	 */
+	public async getAllAccountIds(): Promise<string[]> {
+		return (await this.getAccountIndex()).map(entry => entry.accountId);
+	}
+
+	/**
+	 * Move the comma-separated DISABLED_ACCOUNTS list older versions kept into per-account flags
+	 * in the pool store. Checked once per isolate, before the flags are first read or changed.
+	 */
+	private async migrateLegacyDisabledAccounts(): Promise<void> {
+		if (legacyDisabledMigrated) {
+			return;
+		}
+
+		const legacy = await this.env.QWEN_TOKEN_CACHE.get(KV_DISABLED_ACCOUNTS_KEY);
+		if (legacy) {
+			const accountIds = legacy.split(',').filter(Boolean);
+			for (const accountId of accountIds) {
+				await this.store.setDisabled(accountId, true);
+			}
+			await this.env.QWEN_TOKEN_CACHE.delete(KV_DISABLED_ACCOUNTS_KEY);
+			this.logger.info('Moved disabled accounts into the pool store', { accounts: accountIds });
+		}
+		legacyDisabledMigrated = true;
+	}
+
+	/**
+	 * Pool state (failure, usage and disabled flag) for the given accounts
+	 */
+	private async getPoolStates(accountIds: string[], date: string): Promise<Record<string, PoolState>> {
+		await this.migrateLegacyDisabledAccounts();
+		return await this.store.getPoolStates(accountIds, date);
+	}
+
+	/**
+	 * Take an account out of rotation, or put it back, without deleting its credentials
+	 */
+	public async setAccountDisabled(accountId: string, disabled: boolean): Promise<void> {
+		await this.migrateLegacyDisabledAccounts();
+		await this.store.setDisabled(accountId, disabled);
+		this.logger.info(`Account ${disabled ? 'disabled' : 'enabled'}`, { account: accountId });
+	}
+
+	/**
+	 * Store credentials for a new or replaced account. Starts with a clean slate (no failure record).
+	 */
+	public async saveAccount(accountId: string, credentials: OAuth2Credentials): Promise<void> {
+		await this.store.removeAccount(accountId);
+		await this.store.saveCredentials(accountId, credentials);
+		this.logger.info('Saved account credentials', { account: accountId });
+	}
+
+	/**
+	 * Delete an account's credentials and all of its pool state
+	 */
+	public async deleteAccount(accountId: string): Promise<void> {
+		await this.vault.delete(accountId);
+		await this.store.removeAccount(accountId);
+		await this.setAccountDisabled(accountId, false);
+		this.logger.info('Deleted account', { account: accountId });
+	}
+
+	/**
+	 * Load the failure record for an account, if any
+	 */
+	public async getAccountFailure(accountId: string): Promise<AccountFailure | null> {
+		try {
+			return await this.store.getFailure(accountId);
+		} catch (error) {
+			this.logger.error('Failed to load failure record', { account: accountId, error });
+			return null;
+		}
+	}
+
+	/**
+	 * Get accounts that are currently cooling down after a failure
 	 */
 	public async getFailedAccounts(): Promise<string[]> {
+		const allAccountIds = await this.getAllAccountIds();
+		const now = Date.now();
+		const failed: string[] = [];
+
+		for (const accountId of allAccountIds) {
+			const failure = await this.getAccountFailure(accountId);
+			if (failure && failure.cooldownUntil > now) {
+				failed.push(accountId);
+			}
+		}
+
+		return failed;
+	}
+
+	/**
+	 * Record a failure and put the account into cooldown
+	 */
+	private async markAccountAsFailed(accountId: string, reason: AccountFailureReason, errorMessage: string): Promise<void> {
 		try {
-			// Check if we need to reset the failed accounts list (new UTC day)
-			await this.checkAndResetFailedAccounts();
-			
-			const failed = await this.env.QWEN_TOKEN_CACHE.get('FAILED_ACCOUNTS') || '';
-			return failed.split(',').filter(Boolean);
+			const failure = await this.store.recordFailure(accountId, reason, errorMessage);
+			this.probeAccount = null;
+			this.logger.warn('Account cooling down', { account: accountId, reason, failures: failure.failures, cooldown_until: new Date(failure.cooldownUntil).toISOString() });
 		} catch (error) {
-			console.error('Failed to get failed accounts:', error);
-			return [];
+			this.logger.error('Failed to mark account as failed', { account: accountId, error });
 		}
 	}
 
 	/**
-	 * Check if it's a new UTC day and reset FAILED_ACCOUNTS list if needed
+	 * Claim the probe for an account whose cooldown has expired,
+	 * so concurrent requests don't all pile onto it before it proves healthy.
+	 * Returns false if another request already claimed it.
 	 */
-	private async checkAndResetFailedAccounts(): Promise<void> {
+	private async claimProbe(accountId: string, failure: AccountFailure): Promise<boolean> {
 		try {
-			const lastResetDate = await this.env.QWEN_TOKEN_CACHE.get('LAST_FAILED_RESET_DATE');
-			const currentUtcDate = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
-			
-			// If it's a new day, reset the failed accounts list
-			if (lastResetDate !== currentUtcDate) {
-				console.log(`New UTC day detected (${currentUtcDate}), resetting FAILED_ACCOUNTS list...`);
-				await this.env.QWEN_TOKEN_CACHE.put('FAILED_ACCOUNTS', '');
-				await this.env.QWEN_TOKEN_CACHE.put('LAST_FAILED_RESET_DATE', currentUtcDate);
-				console.log('FAILED_ACCOUNTS list reset successfully');
+			if (!await this.store.claimProbe(accountId)) {
+				return false;
 			}
+			this.probeAccount = accountId;
+			this.logger.info('Probing account for re-admission', { account: accountId, reason: failure.reason, failures: failure.failures });
+			return true;
 		} catch (error) {
-			console.error('Failed to check/reset failed accounts:', error);
+			this.logger.error('Failed to claim probe', { account: accountId, error });
+			return false;
 		}
 	}
 
 	/**
-	 * Add account to failed list
+	 * Clear an account's failure record
+	 */
+	public async clearAccountFailure(accountId: string): Promise<void> {
+		await this.store.clearFailure(accountId);
+	}
+
+	/**
+	 * Report a successful upstream request. A successful probe (or health check) re-admits the account.
 	 */
-	private async markAccountAsFailed(accountId: string): Promise<void> {
+	public async recordAccountSuccess(accountId: string): Promise<void> {
+		if (accountId !== this.probeAccount && accountId !== this.forcedAccount) {
+			return;
+		}
+
 		try {
-			const failed = await this.getFailedAccounts();
-			if (!failed.includes(accountId)) {
-				failed.push(accountId);
-				await this.env.QWEN_TOKEN_CACHE.put('FAILED_ACCOUNTS', failed.join(','));
-				console.log(`Marked account ${accountId} as failed`);
+			await this.clearAccountFailure(accountId);
+			if (accountId === this.probeAccount) {
+				this.logger.info('Account re-admitted after successful probe', { account: accountId });
+				this.probeAccount = null;
 			}
 		} catch (error) {
-			console.error('Failed to mark account as failed:', error);
+			this.logger.error('Failed to clear failure record', { account: accountId, error });
+		}
+	}
+
+	/**
+	 * Tell real quota exhaustion apart from short-term rate limiting
+	 */
+	private async classifyRateLimit(accountId: string, errorMessage: string): Promise<AccountFailureReason> {
+		if (/insufficient_quota|quota exceeded|quota has been exhausted|allocated quota/i.test(errorMessage)) {
+			return 'quota_exhausted';
+		}
+
+		const usage = await this.getAccountUsage(accountId);
+		return usage.remaining <= 0 ? 'quota_exhausted' : 'rate_limited';
+	}
+
+	/**
+	 * Daily request limit per account, overridable via ACCOUNT_DAILY_REQUEST_LIMIT
+	 */
+	private getDailyRequestLimit(): number {
+		return parseInt(this.env.ACCOUNT_DAILY_REQUEST_LIMIT || '', 10) || QWEN_DAILY_REQUEST_LIMIT;
+	}
+
+	/**
+	 * Combine raw counters with the daily limit
+	 */
+	private toAccountUsage(date: string, counters: UsageCounters): AccountUsage {
+		const limit = this.getDailyRequestLimit();
+		return { date, ...counters, limit, remaining: Math.max(0, limit - counters.requests) };
+	}
+
+	/**
+	 * Get today's (UTC) request and token counts for an account
+	 */
+	public async getAccountUsage(accountId: string): Promise<AccountUsage> {
+		const date = new Date().toISOString().split('T')[0];
+
+		try {
+			return this.toAccountUsage(date, await this.store.getUsage(accountId, date));
+		} catch (error) {
+			this.logger.error('Failed to load usage', { account: accountId, error });
+			return this.toAccountUsage(date, EMPTY_USAGE);
+		}
+	}
+
+	/**
+	 * Count one upstream request (and its tokens, if known) against an account's daily usage.
+	 * Atomic with the coordinator; with plain KV, concurrent requests can undercount slightly.
+	 */
+	public async recordAccountUsage(accountId: string, usage?: TokenUsage | null): Promise<void> {
+		try {
+			const date = new Date().toISOString().split('T')[0];
+			await this.store.recordUsage(accountId, date, usage);
+		} catch (error) {
+			this.logger.error('Failed to record usage', { account: accountId, error });
 		}
 	}
 
 	/**
-	 * Load credentials for a specific account from KV
+	 * Load credentials for a specific account
 	 */
 	private async loadAccountCredentials(accountId: string): Promise<OAuth2Credentials | null> {
 		try {
-			const creds = await this.env.QWEN_TOKEN_CACHE.get(`ACCOUNT:${accountId}`, 'json');
-			return creds as OAuth2Credentials | null;
+			return await this.store.getCredentials(accountId);
 		} catch (error) {
-			console.error(`Failed to load credentials for ${accountId}:`, error);
+			this.logger.error('Failed to load credentials', { account: accountId, error });
 			return null;
 		}
 	}
 
 	/**
-	 * Refresh token for a specific account
+	 * Refresh an account's token, serialized across concurrent requests.
+	 * Requests in this isolate share one in-flight refresh; across isolates a refresh lease
+	 * elects a single refresher while the others wait for and reuse its credentials.
+	 * `current` is the (stale) credentials the caller holds.
 	 */
-	private async refreshAccountToken(accountId: string, refreshToken: string): Promise<OAuth2Credentials> {
-		console.log(`Refreshing token for account ${accountId}...`);
+	private async refreshAccountToken(accountId: string, current: OAuth2Credentials): Promise<OAuth2Credentials> {
+		const inflight = inflightRefreshes.get(accountId);
+		if (inflight) {
+			this.logger.debug('Joining in-flight token refresh', { account: accountId });
+			// The refresh runs in another request's context and may never settle if that request goes away
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			const timeout = new Promise<null>(resolve => {
+				timer = setTimeout(() => resolve(null), REFRESH_WAIT_TIMEOUT_MS);
+			});
+			try {
+				const refreshed = await Promise.race([inflight, timeout]);
+				if (refreshed) {
+					return refreshed;
+				}
+			} finally {
+				clearTimeout(timer);
+			}
+			this.logger.warn('In-flight token refresh did not finish in time, falling back to the refresh lease', { account: accountId });
+			return await this.coordinateTokenRefresh(accountId, current);
+		}
 
-		// Load existing credentials to preserve fields not returned by refresh (e.g., resource_url)
-		const existingCreds = await this.loadAccountCredentials(accountId);
+		const refresh = this.coordinateTokenRefresh(accountId, current).finally(() => inflightRefreshes.delete(accountId));
+		inflightRefreshes.set(accountId, refresh);
+		return await refresh;
+	}
+
+	/**
+	 * Whether the stored credentials were already refreshed by someone else since the caller loaded theirs
+	 */
+	private isRefreshedElsewhere(stored: OAuth2Credentials, current: OAuth2Credentials): boolean {
+		return stored.access_token !== current.access_token && stored.expiry_date > Date.now() + TOKEN_BUFFER_TIME;
+	}
+
+	/**
+	 * Wait for the refresh lease or for another holder's refreshed credentials
+	 */
+	private async coordinateTokenRefresh(accountId: string, current: OAuth2Credentials): Promise<OAuth2Credentials> {
+		const deadline = Date.now() + REFRESH_WAIT_TIMEOUT_MS;
+
+		while (true) {
+			const stored = await this.loadAccountCredentials(accountId);
+			if (stored && this.isRefreshedElsewhere(stored, current)) {
+				this.logger.info('Token was already refreshed by another request, reusing it', { account: accountId });
+				return stored;
+			}
+
+			const leaseOwner = await this.acquireRefreshLease(accountId);
+			if (leaseOwner) {
+				try {
+					// The previous holder may have finished between our read and the lease
+					const latest = await this.loadAccountCredentials(accountId);
+					if (latest && this.isRefreshedElsewhere(latest, current)) {
+						return latest;
+					}
+					return await this.requestTokenRefresh(accountId, latest?.refresh_token || current.refresh_token, latest);
+				} finally {
+					await this.releaseRefreshLease(accountId, leaseOwner);
+				}
+			}
+
+			if (Date.now() >= deadline) {
+				throw new Error(`Token refresh failed for ${accountId}: gave up waiting for a concurrent refresh`);
+			}
+
+			this.logger.info('Token refresh is in progress elsewhere, waiting', { account: accountId });
+			await new Promise(resolve => setTimeout(resolve, REFRESH_POLL_INTERVAL_MS));
+		}
+	}
+
+	/**
+	 * Try to take the refresh lease for an account. Returns the owner ID on success.
+	 */
+	private async acquireRefreshLease(accountId: string): Promise<string | null> {
+		try {
+			return await this.store.acquireRefreshLease(accountId);
+		} catch (error) {
+			this.logger.error('Failed to acquire refresh lease', { account: accountId, error });
+			return null;
+		}
+	}
+
+	/**
+	 * Release the refresh lease if we still hold it
+	 */
+	private async releaseRefreshLease(accountId: string, owner: string): Promise<void> {
+		try {
+			await this.store.releaseRefreshLease(accountId, owner);
+		} catch (error) {
+			this.logger.error('Failed to release refresh lease', { account: accountId, error });
+		}
+	}
+
+	/**
+	 * Exchange a refresh token for new credentials and store them
+	 */
+	private async requestTokenRefresh(accountId: string, refreshToken: string, existingCreds: OAuth2Credentials | null): Promise<OAuth2Credentials> {
+		this.logger.info('Refreshing token', { account: accountId });
 
 		const response = await fetch('https://chat.qwen.ai/api/v1/oauth2/token', {
 			method: 'POST',
@@ -119,9 +454,13 @@ export class MultiAccountAuthManager {
 				refresh_token: refreshToken,
 				client_id: QWEN_OAUTH_CLIENT_ID,
 			}),
+		}).catch((error) => {
+			incrementCounter('qwen_proxy_token_refreshes_total', { result: 'failure' });
+			throw error;
 		});
 
 		if (!response.ok) {
+			incrementCounter('qwen_proxy_token_refreshes_total', { result: 'failure' });
 			const errorData = await response.json() as any;
 			throw new Error(`Token refresh failed for ${accountId}: ${errorData.error} - ${errorData.error_description}`);
 		}
@@ -139,97 +478,118 @@ export class MultiAccountAuthManager {
 			resource_url: (tokenData.resource_url || (tokenData as any).endpoint || existingCreds?.resource_url)
 		};
 
-		// Store updated credentials in KV
-		await this.env.QWEN_TOKEN_CACHE.put(`ACCOUNT:${accountId}`, JSON.stringify(newCredentials));
-		console.log(`Successfully refreshed token for ${accountId}`);
+		// Store updated credentials
+		await this.store.saveCredentials(accountId, newCredentials);
+		incrementCounter('qwen_proxy_token_refreshes_total', { result: 'success' });
+		this.logger.info('Refreshed token', { account: accountId });
 
 		return newCredentials;
 	}
 
 	/**
-	 * Weighted random selection based on account freshness
+	 * Resolve the configured selection strategy; the KV setting takes precedence over the env var
+	 */
+	private async getSelectionStrategy(): Promise<AccountSelectionStrategy> {
+		const configured = await this.env.QWEN_TOKEN_CACHE.get(KV_SELECTION_STRATEGY_KEY);
+		return createSelectionStrategy(configured || this.env.ACCOUNT_SELECTION_STRATEGY, this.store, this.logger);
+	}
+
+	/**
+	 * Load configured account priorities; the KV setting takes precedence over the env var
+	 */
+	private async getAccountPriorities(): Promise<Record<string, number>> {
+		const configured = await this.env.QWEN_TOKEN_CACHE.get(KV_ACCOUNT_PRIORITIES_KEY);
+		return parseAccountPriorities(configured || this.env.ACCOUNT_PRIORITIES, this.logger);
+	}
+
+	/**
+	 * Select an account using the configured strategy.
+	 * Candidates are built from the account index and pool state; only the selected account's credentials are read.
 	 */
 	private async selectBestAccount(): Promise<{ accountId: string; credentials: OAuth2Credentials } | null> {
-		const allAccountIds = await this.getAllAccountIds();
-		const failedAccounts = await this.getFailedAccounts();
+		const date = new Date().toISOString().split('T')[0];
+		const now = Date.now();
+
+		const index = await this.getAccountIndex();
+
+		// KV-backed pool state costs reads per account, so large pools are sampled (disabled accounts included)
+		const entries = index.length > this.store.stateReadLimit ? sampleAccounts(index, this.store.stateReadLimit) : index;
+
+		let states: Record<string, PoolState>;
+		try {
+			states = await this.getPoolStates(entries.map(entry => entry.accountId), date);
+		} catch (error) {
+			this.logger.error('Failed to load account pool state', { error });
+			return null;
+		}
 
-		// Filter out failed accounts
-		const availableAccountIds = allAccountIds.filter(id => !failedAccounts.includes(id));
+		// Filter out disabled accounts and ones cooling down; expired cooldowns are due for a probe
+		const available = entries.filter(({ accountId }) => {
+			const { failure, disabled } = states[accountId];
+			return !disabled && (!failure || failure.cooldownUntil <= now);
+		});
 
-		if (availableAccountIds.length === 0) {
-			console.log('No available accounts (all accounts failed)');
+		if (available.length === 0) {
+			this.logger.warn('No available accounts (all accounts disabled or cooling down)');
 			return null;
 		}
 
-		console.log(`Available accounts: ${availableAccountIds.join(', ')}`);
+		this.logger.debug('Available accounts', { available: available.length, total: index.length, sampled: entries.length });
 
-		// Load credentials and calculate weights
-		const accountWeights = [];
-		let maxFreshness = -Infinity;
+		const priorities = await this.getAccountPriorities();
+		const candidates: AccountCandidate[] = [];
 
-		for (const accountId of availableAccountIds) {
-			const credentials = await this.loadAccountCredentials(accountId);
-			if (!credentials) {
-				console.log(`No credentials found for ${accountId}, skipping`);
+		for (const { accountId, expiryDate } of available) {
+			// Skip accounts that already used up today's known quota
+			const usage = this.toAccountUsage(date, states[accountId].usage);
+			if (usage.remaining <= 0) {
+				this.logger.info('Account reached its daily limit, skipping', { account: accountId, requests: usage.requests, limit: usage.limit });
 				continue;
 			}
 
-			const minutesLeft = (credentials.expiry_date - Date.now()) / 60000;
-			maxFreshness = Math.max(maxFreshness, minutesLeft);
-
-			accountWeights.push({
+			candidates.push({
 				accountId,
-				credentials,
-				minutesLeft
+				minutesLeft: expiryDate === null ? 0 : (expiryDate - now) / 60000, // Unindexed until the scheduled handler rewrites it
+				usage,
+				priority: priorities[accountId] ?? 1
 			});
 		}
 
-		if (accountWeights.length === 0) {
-			console.log('No valid credentials found for any account');
+		if (candidates.length === 0) {
+			this.logger.warn('No available accounts (all remaining accounts reached their daily limit)');
 			return null;
 		}
 
-		// Calculate probabilities based on freshness
-		const weightedAccounts = accountWeights.map(account => {
-			let probability: number;
-
-			if (account.minutesLeft < 0) {
-				// Expired: 10% chance to trigger proactive refresh
-				probability = 0.1;
-			} else if (account.minutesLeft === maxFreshness) {
-				// Freshest: 85% probability
-				probability = 0.85;
-			} else if (account.minutesLeft > 30) {
-				probability = 0.7;
-			} else if (account.minutesLeft > 20) {
-				probability = 0.5;
-			} else if (account.minutesLeft > 10) {
-				probability = 0.3;
-			} else if (account.minutesLeft > 5) {
-				probability = 0.1;
-			} else {
-				probability = 0.05;
-			}
+		// Accounts close to the daily limit are only used when nothing else is left
+		const belowLimit = candidates.filter(candidate => candidate.usage.requests < candidate.usage.limit * USAGE_NEAR_LIMIT_RATIO);
+		let pool = belowLimit.length > 0 ? belowLimit : candidates;
 
-			return { ...account, probability };
-		});
+		const strategy = await this.getSelectionStrategy();
+		while (pool.length > 0) {
+			const selected = await strategy.select(pool);
+			if (!selected) {
+				return null;
+			}
+			pool = pool.filter(candidate => candidate.accountId !== selected.accountId);
 
-		// Weighted random selection
-		const random = Math.random();
-		let cumulativeProbability = 0;
+			// Another request won the probe for this account: pick again without it
+			const failure = states[selected.accountId].failure;
+			if (failure && !await this.claimProbe(selected.accountId, failure)) {
+				continue;
+			}
 
-		for (const account of weightedAccounts) {
-			cumulativeProbability += account.probability;
-			if (random <= cumulativeProbability) {
-				console.log(`Selected account ${account.accountId} (probability: ${account.probability}, minutes left: ${account.minutesLeft.toFixed(1)})`);
-				return { accountId: account.accountId, credentials: account.credentials };
+			const credentials = await this.loadAccountCredentials(selected.accountId);
+			if (!credentials) {
+				this.logger.warn('No credentials found, skipping', { account: selected.accountId });
+				continue;
 			}
+
+			this.logger.info('Selected account', { account: selected.accountId, strategy: strategy.name, minutes_left: Number(((credentials.expiry_date - now) / 60000).toFixed(1)), requests_today: selected.usage.requests });
+			return { accountId: selected.accountId, credentials };
 		}
 
-		// Fallback (shouldn't reach here)
-		const fallback = weightedAccounts[0];
-		console.log(`Fallback to account ${fallback.accountId}`);
-		return { accountId: fallback.accountId, credentials: fallback.credentials };
+		this.logger.warn('No available accounts (remaining accounts are being probed or have no credentials)');
+		return null;
 	}
 
 	/**
@@ -258,31 +618,28 @@ export class MultiAccountAuthManager {
 			// Check if current credentials are still valid
 			const minutesLeft = (this.selectedCredentials.expiry_date - Date.now()) / 60000;
 			if (minutesLeft > 5) {
-				console.log(`Using existing valid account ${this.selectedAccount} (${minutesLeft.toFixed(1)} minutes left)`);
+				this.logger.debug('Using existing valid account', { account: this.selectedAccount, minutes_left: Number(minutesLeft.toFixed(1)) });
 				return;
 			}
 		}
 		
 		if (this.forcedAccount) {
-			console.log(`Using forced account: ${this.forcedAccount}`);
+			this.logger.info('Using forced account', { account: this.forcedAccount });
 			const forcedCredentials = await this.loadAccountCredentials(this.forcedAccount);
 			if (!forcedCredentials) {
 				throw new Error(`Forced account ${this.forcedAccount} not found in KV storage`);
 			}
 
 			if (forcedCredentials.expiry_date < Date.now()) {
-				console.log(`Forced account ${this.forcedAccount} has expired token, attempting refresh...`);
+				this.logger.info('Forced account has expired token, attempting refresh', { account: this.forcedAccount });
 				if (forcedCredentials.refresh_token) {
 					try {
-						this.selectedCredentials = await this.refreshAccountToken(
-							this.forcedAccount,
-							forcedCredentials.refresh_token
-						);
+						this.selectedCredentials = await this.refreshAccountToken(this.forcedAccount, forcedCredentials);
 						this.selectedAccount = this.forcedAccount;
-						console.log(`Forced account ${this.forcedAccount} refresh successful`);
+						this.logger.info('Forced account refresh successful', { account: this.forcedAccount });
 						return;
 					} catch (refreshError) {
-						console.log(`Forced account ${this.forcedAccount} refresh failed:`, refreshError);
+						this.logger.warn('Forced account refresh failed', { account: this.forcedAccount, error: refreshError });
 					}
 				}
 
@@ -306,28 +663,32 @@ export class MultiAccountAuthManager {
 
 		// Handle expired accounts with proactive refresh
 		if (selection.credentials.expiry_date < Date.now()) {
-			console.log(`Selected account ${selection.accountId} has expired token, attempting proactive refresh...`);
+			this.logger.info('Selected account has expired token, attempting proactive refresh', { account: selection.accountId });
 			try {
-				this.selectedCredentials = await this.refreshAccountToken(
-					selection.accountId, 
-					selection.credentials.refresh_token
-				);
+				this.selectedCredentials = await this.refreshAccountToken(selection.accountId, selection.credentials);
 				this.selectedAccount = selection.accountId;
-				console.log(`Proactive refresh successful for ${selection.accountId}`);
+				this.logger.info('Proactive refresh successful', { account: selection.accountId });
 			} catch (refreshError) {
-				console.log(`Proactive refresh failed for ${selection.accountId}, trying freshest account...`);
+				this.logger.warn('Proactive refresh failed, trying freshest account', { account: selection.accountId });
 				
-				// Find freshest account and use it instead
-				const allAccountIds = await this.getAllAccountIds();
-				const failedAccounts = await this.getFailedAccounts();
-				const availableIds = allAccountIds.filter(id => !failedAccounts.includes(id) && id !== selection.accountId);
-				
-				for (const accountId of availableIds) {
+				// Find the freshest account in the index and use it instead
+				const fallbacks = (await this.getAccountIndex())
+					.filter(entry => entry.accountId !== selection.accountId && (entry.expiryDate ?? 0) > Date.now())
+					.sort((a, b) => (b.expiryDate ?? 0) - (a.expiryDate ?? 0))
+					.slice(0, SELECTION_SAMPLE_SIZE);
+				const states = await this.getPoolStates(fallbacks.map(entry => entry.accountId), new Date().toISOString().split('T')[0]);
+
+				for (const { accountId } of fallbacks) {
+					const { failure, disabled } = states[accountId];
+					if (disabled || (failure && failure.cooldownUntil > Date.now())) {
+						continue;
+					}
+
 					const creds = await this.loadAccountCredentials(accountId);
 					if (creds && creds.expiry_date > Date.now()) {
 						this.selectedAccount = accountId;
 						this.selectedCredentials = creds;
-						console.log(`Switched to freshest account ${accountId}`);
+						this.logger.info('Switched to freshest account', { account: accountId });
 						return;
 					}
 				}
@@ -366,7 +727,7 @@ export class MultiAccountAuthManager {
 	 */
 	public async handleApiError(error: any, retryCount: number = 0): Promise<{ shouldRetry: boolean; newAccount?: boolean }> {
 		if (this.forcedAccount) {
-			console.log(`Forced account ${this.forcedAccount} active; skipping rotation logic`);
+			this.logger.info('Forced account active, skipping rotation logic', { account: this.forcedAccount });
 			return { shouldRetry: false };
 		}
 
@@ -377,35 +738,30 @@ export class MultiAccountAuthManager {
 		const errorMessage = error instanceof Error ? error.message : String(error);
 		const statusCode = this.extractStatusCode(errorMessage);
 
-		console.log(`Handling API error for account ${this.selectedAccount}: ${errorMessage} (status: ${statusCode})`);
+		this.logger.warn('Handling API error', { account: this.selectedAccount, upstream_status: statusCode, error: errorMessage });
 
 		// Type 1: Token Expired (401) - Auto-refresh and retry same account
 		if (statusCode === 401 || errorMessage.includes('401') || errorMessage.includes('unauthorized')) {
 			if (this.selectedCredentials?.refresh_token && retryCount === 0) {
 				try {
-					console.log(`Token expired for ${this.selectedAccount}, refreshing...`);
-					await this.refreshAccountToken(this.selectedAccount, this.selectedCredentials.refresh_token);
-					
-					// Reload the refreshed credentials
-					const refreshed = await this.loadAccountCredentials(this.selectedAccount);
-					if (refreshed) {
-						this.selectedCredentials = refreshed;
-						console.log(`Successfully refreshed token for ${this.selectedAccount}`);
-						return { shouldRetry: true, newAccount: false };
-					}
+					this.logger.info('Token expired, refreshing', { account: this.selectedAccount });
+					this.selectedCredentials = await this.refreshAccountToken(this.selectedAccount, this.selectedCredentials);
+					this.logger.info('Refreshed expired token', { account: this.selectedAccount });
+					return { shouldRetry: true, newAccount: false };
 				} catch (refreshError) {
-					console.log(`Token refresh failed for ${this.selectedAccount}:`, refreshError);
+					this.logger.warn('Token refresh failed', { account: this.selectedAccount, error: refreshError });
 				}
 			}
 			
-			// If refresh failed or no refresh token, mark as failed and try different account
-			await this.markAccountAsFailed(this.selectedAccount);
+			// If refresh failed or no refresh token, cool the account down and try a different one
+			await this.markAccountAsFailed(this.selectedAccount, 'auth_failed', errorMessage);
 			return { shouldRetry: retryCount === 0, newAccount: true };
 		}
 
-		// Type 2: Quota Exceeded (429) - Mark as failed and try different account
+		// Type 2: Rate Limited / Quota Exceeded (429) - Cool down (until tomorrow for quota) and try different account
 		if (statusCode === 429 || errorMessage.includes('429') || errorMessage.includes('quota') || errorMessage.includes('rate limit')) {
-			await this.markAccountAsFailed(this.selectedAccount);
+			const reason = await this.classifyRateLimit(this.selectedAccount, errorMessage);
+			await this.markAccountAsFailed(this.selectedAccount, reason, errorMessage);
 			return { shouldRetry: retryCount === 0, newAccount: true };
 		}
 
@@ -429,7 +785,7 @@ export class MultiAccountAuthManager {
 	 */
 	public async switchAccount(): Promise<boolean> {
 		if (this.forcedAccount) {
-			console.log('Forced account active; switchAccount skipped');
+			this.logger.info('Forced account active, switchAccount skipped');
 			return false;
 		}
 
@@ -440,7 +796,7 @@ export class MultiAccountAuthManager {
 			await this.initializeAuth();
 			return this.selectedAccount !== null;
 		} catch (error) {
-			console.error('Failed to switch account:', error);
+			this.logger.error('Failed to switch account', { error });
 			return false;
 		}
 	}
@@ -454,141 +810,434 @@ export class MultiAccountAuthManager {
 	}
 
 	/**
-	 * Get properly refreshed credentials for health check
+	 * Refresh every account whose token expires within `windowMs`.
+	 * Accounts whose refresh token was rejected are put into cooldown and reported as revoked.
 	 */
-	private async getHealthCheckCredentials(accountId: string): Promise<OAuth2Credentials | null> {
-		const rawCredentials = await this.loadAccountCredentials(accountId);
-		if (!rawCredentials) {
-			return null;
-		}
+	public async refreshExpiringTokens(windowMs: number): Promise<TokenRefreshResult[]> {
+		const results: TokenRefreshResult[] = [];
+
+		// Only accounts the index says are expiring (or hasn't indexed yet) need their credentials read
+		const expiring = (await this.getAccountIndex()).filter(entry => entry.expiryDate === null || entry.expiryDate - Date.now() <= windowMs);
+		for (const { accountId } of expiring) {
+			const credentials = await this.loadAccountCredentials(accountId);
+			if (!credentials || credentials.expiry_date - Date.now() > windowMs) {
+				continue;
+			}
 
-		// Handle expired tokens with refresh (same logic as main selection)
-		if (rawCredentials.expiry_date < Date.now()) {
-			console.log(`Health check: Account ${accountId} has expired token, attempting refresh...`);
 			try {
-				return await this.refreshAccountToken(accountId, rawCredentials.refresh_token);
-			} catch (refreshError) {
-				console.log(`Health check: Refresh failed for ${accountId}, using expired token for test`);
-				return rawCredentials; // Return expired token - the test will fail appropriately
+				const refreshed = await this.refreshAccountToken(accountId, credentials);
+				results.push({ accountId, status: 'refreshed', expiresAt: new Date(refreshed.expiry_date).toISOString() });
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				const revoked = REVOKED_REFRESH_PATTERN.test(errorMessage);
+				if (revoked) {
+					await this.markAccountAsFailed(accountId, 'auth_failed', errorMessage);
+				}
+				results.push({ accountId, status: revoked ? 'revoked' : 'failed', error: errorMessage });
 			}
 		}
 
-		return rawCredentials;
+		return results;
 	}
 
 	/**
-	 * Get health status of all accounts using the actual proxy logic
+	 * Rewrite stored credentials that need it: entries without index metadata (e.g. from the setup scripts),
+	 * plaintext entries once encryption is on, and entries encrypted with a retired key.
+	 * Each rewrite holds the account's refresh lease so it can't overwrite a concurrent token refresh;
+	 * accounts whose lease is taken are reported as busy and picked up on the next run.
 	 */
-	public async getAccountsHealth(): Promise<AccountHealth[]> {
-		const allAccountIds = await this.getAllAccountIds();
-		const failedAccounts = await this.getFailedAccounts();
-		const results: AccountHealth[] = [];
+	public async migrateStoredCredentials(): Promise<CredentialMigrationResult[]> {
+		const activeKeyId = this.vault.cipher?.activeKeyId ?? null;
+		const results: CredentialMigrationResult[] = [];
 
-		console.log(`Starting health check for ${allAccountIds.length} accounts using proxy logic...`);
+		for (const entry of await this.getAccountIndex()) {
+			if (!this.vault.needsMigration(entry)) {
+				continue;
+			}
 
-		// Test each account through the actual proxy
-		for (const accountId of allAccountIds) {
-			console.log(`Testing account: ${accountId}`);
-			
-			// Force the auth manager to use this specific account
-			this.forceSelectAccount(accountId);
-			
+			const { accountId } = entry;
 			try {
-				// Get initial credentials info
-				const credentials = await this.loadAccountCredentials(accountId);
-				if (!credentials) {
-					results.push({
-						account: accountId,
-						status: 'missing_credentials',
-						error: 'No credentials found',
-						expiresIn: 'unknown',
-						isFailed: failedAccounts.includes(accountId)
-					});
+				const leaseOwner = await this.acquireRefreshLease(accountId);
+				if (!leaseOwner) {
+					results.push({ accountId, status: 'busy', from: entry.keyId });
 					continue;
 				}
 
-				const isExpired = credentials.expiry_date < Date.now();
-				const expiresIn = isExpired ? 'expired' : `${Math.floor((credentials.expiry_date - Date.now()) / 60000)} min`;
+				let from: string | null = null;
+				let status: CredentialMigrationResult['status'];
+				try {
+					const stored = await this.vault.inspect(accountId);
+					if (!stored) {
+						continue;
+					}
+					from = stored.keyId;
+					status = activeKeyId && stored.keyId !== activeKeyId ? (stored.keyId ? 'rotated' : 'encrypted') : 'indexed';
 
-				// Test through the actual proxy using QwenAPIClient
-				console.log(`Testing ${accountId} through proxy...`);
-				const { QwenAPIClient } = await import('./qwen-client');
-				const client = new QwenAPIClient(this.env, this);
-				
-				const testRequest: import('./types').ChatCompletionRequest = {
-					model: 'qwen3-coder-plus',
-					messages: [{ role: 'user', content: 'hi' }],
-					max_tokens: 5
-				};
+					// Save what the store returns: it may hold newer refreshed credentials than KV
+					const latest = await this.store.getCredentials(accountId);
+					if (latest) {
+						await this.store.saveCredentials(accountId, latest);
+					}
+				} finally {
+					await this.releaseRefreshLease(accountId, leaseOwner);
+				}
 
-				await client.chatCompletions(testRequest);
-				
-				// After successful test, get updated credentials to show correct expiry time
-				const updatedCredentials = await this.loadAccountCredentials(accountId);
-				const updatedExpiresIn = updatedCredentials ? 
-					(updatedCredentials.expiry_date < Date.now() ? 'expired' : `${Math.floor((updatedCredentials.expiry_date - Date.now()) / 60000)} min`)
-					: 'unknown';
-				
-				// If we get here, the request succeeded
-				results.push({
-					account: accountId,
-					status: 'healthy',
-					error: null,
-					expiresIn: updatedExpiresIn, // Use updated expiry time
-					isFailed: failedAccounts.includes(accountId),
-					apiStatus: 200
-				});
-				
-				console.log(`✅ ${accountId}: HEALTHY (updated expiry: ${updatedExpiresIn})`);
-				
+				results.push({ accountId, status, from });
+				this.logger.info('Credentials rewritten', { account: accountId, status, key_id: activeKeyId });
 			} catch (error) {
-				console.log(`❌ ${accountId}: ERROR - ${error instanceof Error ? error.message : 'Unknown error'}`);
-				
-				// Analyze error to determine status
-				let status: 'quota_exceeded' | 'error' = 'error';
-				let apiStatus = 0;
-				const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-				
-				if (errorMessage.includes('429') || errorMessage.includes('quota')) {
-					status = 'quota_exceeded';
-					apiStatus = 429;
-				} else if (errorMessage.includes('401') || errorMessage.includes('unauthorized')) {
-					apiStatus = 401;
-					status = 'error';
-				} else if (errorMessage.includes('500') || errorMessage.includes('502') || errorMessage.includes('504')) {
-					apiStatus = 500;
-					status = 'error';
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				this.logger.error('Failed to migrate stored credentials', { account: accountId, error: errorMessage });
+				results.push({ accountId, status: 'failed', from: entry.keyId, error: errorMessage });
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Which key each account's credentials are stored under (null for plaintext), without decrypting tokens for callers
+	 */
+	public async getCredentialEncryptionStatus(): Promise<{ enabled: boolean; activeKeyId: string | null; accounts: { account: string; keyId: string | null; error?: string }[] }> {
+		const accounts = [];
+		for (const accountId of await this.getAllAccountIds()) {
+			try {
+				const stored = await this.vault.inspect(accountId);
+				accounts.push({ account: accountId, keyId: stored?.keyId ?? null });
+			} catch (error) {
+				accounts.push({ account: accountId, keyId: null, error: error instanceof Error ? error.message : String(error) });
+			}
+		}
+
+		return {
+			enabled: !!this.vault.cipher,
+			activeKeyId: this.vault.cipher?.activeKeyId ?? null,
+			accounts
+		};
+	}
+
+	/**
+	 * Start-of-day cleanup: re-admit accounts whose quota block ended at UTC midnight
+	 * and drop the keys left over from the old all-day failed list. Reads pool state
+	 * POOL_STATE_BATCH_SIZE accounts at a time. Returns the re-admitted accounts.
+	 */
+	public async resetDailyState(): Promise<string[]> {
+		const now = Date.now();
+		const date = new Date(now).toISOString().split('T')[0];
+		const readmitted: string[] = [];
+		let cursor: string | null = null;
+
+		do {
+			const page: { entries: AccountIndexEntry[]; cursor: string | null } = await this.vault.listAccountsPage(cursor ?? undefined, POOL_STATE_BATCH_SIZE);
+			const states = await this.store.getPoolStates(page.entries.map(entry => entry.accountId), date);
+			for (const { accountId } of page.entries) {
+				const failure = states[accountId].failure;
+				if (failure?.reason === 'quota_exhausted' && failure.cooldownUntil <= now) {
+					await this.clearAccountFailure(accountId);
+					readmitted.push(accountId);
 				}
+			}
+			cursor = page.cursor;
+		} while (cursor);
 
-				// Get expiry time for failed accounts too
-				const credentials = await this.loadAccountCredentials(accountId);
-				const expiresIn = credentials ? 
-					(credentials.expiry_date < Date.now() ? 'expired' : `${Math.floor((credentials.expiry_date - Date.now()) / 60000)} min`) 
-					: 'unknown';
-
-				results.push({
-					account: accountId,
-					status,
-					error: errorMessage,
-					expiresIn,
-					isFailed: failedAccounts.includes(accountId),
-					apiStatus
-				});
-			} finally {
-				// Clear forced account for next iteration
-				this.clearForcedAccount();
+		await this.env.QWEN_TOKEN_CACHE.delete('FAILED_ACCOUNTS');
+		await this.env.QWEN_TOKEN_CACHE.delete('LAST_FAILED_RESET_DATE');
+		return readmitted;
+	}
+
+	/**
+	 * One page of account summaries in index order, reading pool state only for the accounts on it.
+	 * Pass the returned cursor back for the next page; it is null after the last one.
+	 */
+	public async getAccountSummaryPage(cursor: string | undefined, limit: number): Promise<{ accounts: AccountSummary[]; cursor: string | null }> {
+		const page = await this.vault.listAccountsPage(cursor, limit);
+		return { accounts: await this.summarizeAccounts(page.entries), cursor: page.cursor };
+	}
+
+	/**
+	 * Summaries for the whole pool, POOL_STATE_BATCH_SIZE accounts at a time (for the scheduled snapshot)
+	 */
+	public async getAccountSummaries(): Promise<AccountSummary[]> {
+		const accounts: AccountSummary[] = [];
+		let cursor: string | null = null;
+		do {
+			const page: { accounts: AccountSummary[]; cursor: string | null } = await this.getAccountSummaryPage(cursor ?? undefined, POOL_STATE_BATCH_SIZE);
+			accounts.push(...page.accounts);
+			cursor = page.cursor;
+		} while (cursor);
+		return accounts;
+	}
+
+	/**
+	 * One account's summary, or null if it isn't in the index
+	 */
+	public async getAccountSummary(accountId: string): Promise<AccountSummary | null> {
+		const entry = (await this.getAccountIndex()).find(entry => entry.accountId === accountId);
+		return entry ? (await this.summarizeAccounts([entry]))[0] : null;
+	}
+
+	/**
+	 * Token, cooldown and usage state for the given accounts, without calling the Qwen API
+	 */
+	private async summarizeAccounts(entries: AccountIndexEntry[]): Promise<AccountSummary[]> {
+		const date = new Date().toISOString().split('T')[0];
+		const states = await this.getPoolStates(entries.map(entry => entry.accountId), date);
+		const now = Date.now();
+
+		return entries.map(({ accountId, expiryDate }) => {
+			const { failure, usage, disabled } = states[accountId];
+			const accountUsage = this.toAccountUsage(date, usage);
+			return {
+				account: accountId,
+				expiresIn: formatExpiresIn(expiryDate, now),
+				expiresAt: expiryDate === null ? null : new Date(expiryDate).toISOString(),
+				isFailed: !!failure && failure.cooldownUntil > now,
+				disabled,
+				failure,
+				requestsToday: accountUsage.requests,
+				remainingRequests: accountUsage.remaining
+			};
+		});
+	}
+
+	/**
+	 * Credentials to check an account with. An expired token is refreshed first, which is also
+	 * what shows whether the refresh token still works; a revoked one puts the account into cooldown.
+	 */
+	private async getHealthCheckCredentials(accountId: string, logger: Logger): Promise<OAuth2Credentials | null> {
+		const credentials = await this.loadAccountCredentials(accountId);
+		if (!credentials || credentials.expiry_date > Date.now() + TOKEN_BUFFER_TIME) {
+			return credentials;
+		}
+
+		logger.info('Health check: expired token, refreshing');
+		try {
+			return await this.refreshAccountToken(accountId, credentials);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			if (REVOKED_REFRESH_PATTERN.test(errorMessage)) {
+				await this.markAccountAsFailed(accountId, 'auth_failed', errorMessage);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Check one account in the given mode; upstream failures are thrown for the caller to classify
+	 */
+	private async runHealthCheck(
+		accountId: string,
+		mode: HealthCheckMode,
+		signal: AbortSignal,
+		logger: Logger
+	): Promise<{ status: 'healthy' | 'missing_credentials'; expiryDate: number | null; apiStatus?: number }> {
+		const credentials = await this.getHealthCheckCredentials(accountId, logger);
+		if (!credentials) {
+			return { status: 'missing_credentials', expiryDate: null };
+		}
+		if (mode === 'credentials') {
+			return { status: 'healthy', expiryDate: credentials.expiry_date };
+		}
+
+		const { QwenAPIClient } = await import('./qwen-client');
+
+		if (mode === 'probe') {
+			const apiStatus = await new QwenAPIClient(this.env, this).probeAccount(credentials, signal);
+			if (apiStatus === 401 || apiStatus === 403 || apiStatus === 429 || apiStatus >= 500) {
+				throw new Error(`Qwen API error: ${apiStatus}`);
 			}
+			return { status: 'healthy', expiryDate: credentials.expiry_date, apiStatus };
 		}
 
-		return results;
+		// A manager of its own, so concurrent checks don't share the forced account
+		const authManager = new MultiAccountAuthManager(this.env, logger);
+		authManager.forceSelectAccount(accountId);
+		const testRequest: import('./types').ChatCompletionRequest = {
+			model: 'qwen3-coder-plus',
+			messages: [{ role: 'user', content: 'hi' }],
+			max_tokens: 5
+		};
+		await new QwenAPIClient(this.env, authManager).chatCompletions(testRequest, { apiKeyId: LEDGER_HEALTH_CHECK_LABEL, logger, signal });
+
+		// The completion may have refreshed the token again
+		const updated = await this.loadAccountCredentials(accountId);
+		return { status: 'healthy', expiryDate: updated?.expiry_date ?? null, apiStatus: 200 };
+	}
+
+	/**
+	 * Check one account, giving up after `timeoutMs`
+	 */
+	private async checkAccountHealth(
+		{ accountId, expiryDate }: AccountIndexEntry,
+		{ failure, usage }: PoolState,
+		date: string,
+		mode: HealthCheckMode,
+		timeoutMs: number
+	): Promise<AccountHealth> {
+		const logger = this.logger.child({ account: accountId });
+		const now = Date.now();
+		// Cooldown state before the test; a successful completion re-admits the account
+		const cooldown = {
+			isFailed: !!failure && failure.cooldownUntil > now,
+			...(failure && {
+				failureReason: failure.reason,
+				failureCount: failure.failures,
+				cooldownUntil: new Date(failure.cooldownUntil).toISOString()
+			})
+		};
+
+		const controller = new AbortController();
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const timeout = new Promise<never>((_, reject) => {
+			timer = setTimeout(() => {
+				controller.abort();
+				reject(new Error(`Health check timed out after ${timeoutMs}ms`));
+			}, timeoutMs);
+		});
+
+		let health: Pick<AccountHealth, 'status' | 'error' | 'apiStatus'>;
+		try {
+			const result = await Promise.race([this.runHealthCheck(accountId, mode, controller.signal, logger), timeout]);
+			if (result.status === 'missing_credentials') {
+				return { account: accountId, status: 'missing_credentials', error: 'No credentials found', expiresIn: 'unknown', ...cooldown };
+			}
+			health = { status: 'healthy', error: null, ...(result.apiStatus !== undefined && { apiStatus: result.apiStatus }) };
+			expiryDate = result.expiryDate;
+			logger.debug('Health check: account healthy', { mode });
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			logger.warn('Health check: account failed', { mode, error });
+			health = { ...classifyHealthCheckError(errorMessage), error: errorMessage };
+		} finally {
+			clearTimeout(timer);
+		}
+
+		// Usage after a completion includes the test request itself
+		const accountUsage = mode === 'completion' ? await this.getAccountUsage(accountId) : this.toAccountUsage(date, usage);
+
+		return {
+			account: accountId,
+			...health,
+			expiresIn: formatExpiresIn(expiryDate),
+			...cooldown,
+			requestsToday: accountUsage.requests,
+			remainingRequests: accountUsage.remaining
+		};
+	}
+
+	/**
+	 * Health of every account, checking `concurrency` accounts at a time with a timeout for each.
+	 * Results are cached per mode, and ones at most `maxAge` seconds old are returned without checking again.
+	 */
+	public async getAccountsHealth(options: Partial<HealthCheckOptions> = {}): Promise<HealthCheckReport> {
+		const {
+			mode = 'credentials',
+			maxAge = HEALTH_CHECK_DEFAULT_MAX_AGE,
+			concurrency = HEALTH_CHECK_CONCURRENCY,
+			timeoutMs = HEALTH_CHECK_TIMEOUT_MS
+		} = options;
+		const cacheKey = `${KV_HEALTH_CHECK_PREFIX}${mode}`;
+
+		if (maxAge > 0) {
+			const cached = await this.env.QWEN_TOKEN_CACHE.get(cacheKey, 'json') as HealthCheckReport | null;
+			if (cached && Date.now() - Date.parse(cached.checkedAt) <= maxAge * 1000) {
+				return { ...cached, cached: true };
+			}
+		}
+
+		const index = await this.getAccountIndex();
+		const date = new Date().toISOString().split('T')[0];
+		const states = await this.store.getPoolStates(index.map(entry => entry.accountId), date);
+		this.logger.info('Starting health check', { mode, accounts: index.length, concurrency });
+
+		const report: HealthCheckReport = {
+			mode,
+			checkedAt: new Date().toISOString(),
+			cached: false,
+			accounts: await mapWithConcurrency(index, concurrency, entry => this.checkAccountHealth(entry, states[entry.accountId], date, mode, timeoutMs))
+		};
+
+		try {
+			await this.env.QWEN_TOKEN_CACHE.put(cacheKey, JSON.stringify(report), { expirationTtl: HEALTH_CHECK_CACHE_TTL });
+		} catch (error) {
+			this.logger.error('Failed to cache health check results', { mode, error });
+		}
+		return report;
 	}
 }
 
+export type HealthCheckMode = 'credentials' | 'probe' | 'completion';
+
+export const HEALTH_CHECK_MODES: HealthCheckMode[] = ['credentials', 'probe', 'completion'];
+
+export interface HealthCheckOptions {
+	mode: HealthCheckMode; // credentials: token expiry and refresh only; probe: one request that spends no quota; completion: a real chat completion
+	maxAge: number; // Seconds; cached results up to this old are returned as they are (0 always checks)
+	concurrency: number; // Accounts checked at once
+	timeoutMs: number; // Per account
+}
+
+export interface HealthCheckReport {
+	mode: HealthCheckMode;
+	checkedAt: string;
+	cached: boolean; // Served from an earlier check
+	accounts: AccountHealth[];
+}
+
 export interface AccountHealth {
 	account: string;
 	status: 'healthy' | 'quota_exceeded' | 'error' | 'missing_credentials';
 	error: string | null;
 	expiresIn: string;
-	isFailed: boolean;
+	isFailed: boolean; // Cooling down after a failure
+	failureReason?: AccountFailureReason;
+	failureCount?: number;
+	cooldownUntil?: string;
 	apiStatus?: number;
+	requestsToday?: number;
+	remainingRequests?: number;
+}
+
+export interface AccountUsage {
+	date: string; // UTC day, YYYY-MM-DD
+	requests: number;
+	prompt_tokens: number;
+	completion_tokens: number;
+	total_tokens: number;
+	limit: number;
+	remaining: number;
+}
+
+export type AccountFailureReason = 'rate_limited' | 'quota_exhausted' | 'auth_failed';
+
+export interface AccountFailure {
+	reason: AccountFailureReason;
+	failures: number; // Consecutive failures, drives the backoff
+	lastFailureAt: number; // Epoch ms
+	cooldownUntil: number; // Epoch ms; the account is skipped until then
+	lastError?: string;
+}
+
+export interface TokenRefreshResult {
+	accountId: string;
+	status: 'refreshed' | 'failed' | 'revoked';
+	expiresAt?: string;
+	error?: string;
+}
+
+export interface CredentialMigrationResult {
+	accountId: string;
+	status: 'encrypted' | 'rotated' | 'indexed' | 'busy' | 'failed';
+	from: string | null; // Previous key ID, null for plaintext
+	error?: string;
+}
+
+export interface AccountSummary {
+	account: string;
+	expiresIn: string;
+	expiresAt: string | null; // Access token expiry, null when the account isn't indexed yet
+	isFailed: boolean; // Cooling down after a failure
+	disabled: boolean; // Taken out of rotation by an admin
+	failure: AccountFailure | null;
+	requestsToday: number;
+	remainingRequests: number;
 }
@@ -0,0 +1,323 @@
+import { Env, OAuth2Credentials, TokenUsage } from './types';
+import type { AccountFailure, AccountFailureReason } from './multi-auth';
+import type { AccountCoordinator } from './coordinator';
+import type { CredentialVault } from './credential-vault';
+import {
+	KV_USAGE_PREFIX,
+	USAGE_RECORD_TTL,
+	KV_FAILURE_PREFIX,
+	KV_DISABLED_PREFIX,
+	RATE_LIMIT_BASE_COOLDOWN_MS,
+	RATE_LIMIT_MAX_COOLDOWN_MS,
+	AUTH_FAILURE_BASE_COOLDOWN_MS,
+	AUTH_FAILURE_MAX_COOLDOWN_MS,
+	PROBE_WINDOW_MS,
+	FAILURE_RECORD_TTL,
+	KV_REFRESH_LOCK_PREFIX,
+	REFRESH_LEASE_MS,
+	REFRESH_LEASE_TTL,
+	REFRESH_LEASE_VERIFY_DELAY_MS,
+	SELECTION_SAMPLE_SIZE,
+	ACCOUNT_COORDINATOR_NAME
+} from './config';
+
+/**
+ * Storage for the mutable account pool state: failure records, daily usage, disabled flags,
+ * refresh leases and refreshed credentials.
+ * Backed by the AccountCoordinator Durable Object when it is bound, otherwise by KV.
+ */
+
+export interface UsageCounters {
+	requests: number;
+	prompt_tokens: number;
+	completion_tokens: number;
+	total_tokens: number;
+}
+
+export interface PoolState {
+	failure: AccountFailure | null;
+	usage: UsageCounters;
+	disabled: boolean; // Taken out of rotation by an admin
+}
+
+export interface PoolStore {
+	readonly stateReadLimit: number; // Max accounts whose pool state a single selection should read
+	getPoolStates(accountIds: string[], date: string): Promise<Record<string, PoolState>>;
+	getCredentials(accountId: string): Promise<OAuth2Credentials | null>;
+	saveCredentials(accountId: string, credentials: OAuth2Credentials): Promise<void>;
+	getFailure(accountId: string): Promise<AccountFailure | null>;
+	recordFailure(accountId: string, reason: AccountFailureReason, errorMessage: string): Promise<AccountFailure>;
+	claimProbe(accountId: string): Promise<boolean>;
+	clearFailure(accountId: string): Promise<void>;
+	getUsage(accountId: string, date: string): Promise<UsageCounters>;
+	recordUsage(accountId: string, date: string, usage?: TokenUsage | null): Promise<void>;
+	setDisabled(accountId: string, disabled: boolean): Promise<void>;
+	acquireRefreshLease(accountId: string): Promise<string | null>;
+	releaseRefreshLease(accountId: string, owner: string): Promise<void>;
+	nextRoundRobinCursor(): Promise<number>;
+	removeAccount(accountId: string): Promise<void>; // Forget cached credentials, failure record and lease
+}
+
+export interface RefreshLease {
+	owner: string;
+	expiresAt: number; // Epoch ms; an expired lease can be taken over
+}
+
+export const EMPTY_USAGE: UsageCounters = { requests: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+// Round-robin cursor of this isolate for the KV store. A shared KV cursor would be written on every
+// selection, past KV's one write per second per key; a random start keeps isolates from moving in step.
+let isolateRoundRobinCursor = Math.floor(Math.random() * 1024);
+
+/**
+ * Compute when a failed account may be tried again.
+ * Rate limits and auth failures back off exponentially; quota exhaustion waits for the next UTC day.
+ */
+export function computeCooldownUntil(reason: AccountFailureReason, failures: number, now: number): number {
+	if (reason === 'quota_exhausted') {
+		const nextUtcDay = new Date(now);
+		nextUtcDay.setUTCHours(24, 0, 0, 0);
+		return nextUtcDay.getTime();
+	}
+
+	const [base, max] = reason === 'rate_limited'
+		? [RATE_LIMIT_BASE_COOLDOWN_MS, RATE_LIMIT_MAX_COOLDOWN_MS]
+		: [AUTH_FAILURE_BASE_COOLDOWN_MS, AUTH_FAILURE_MAX_COOLDOWN_MS];
+	return now + Math.min(max, base * 2 ** (failures - 1));
+}
+
+/**
+ * Build the next failure record from the previous one
+ */
+export function nextFailure(previous: AccountFailure | null, reason: AccountFailureReason, errorMessage: string): AccountFailure {
+	const now = Date.now();
+	const failures = (previous?.failures || 0) + 1;
+	return {
+		reason,
+		failures,
+		lastFailureAt: now,
+		cooldownUntil: computeCooldownUntil(reason, failures, now),
+		lastError: errorMessage.substring(0, 200)
+	};
+}
+
+/**
+ * Add one request (and its tokens, if known) to usage counters
+ */
+export function addUsage(current: UsageCounters, usage?: TokenUsage | null): UsageCounters {
+	return {
+		requests: current.requests + 1,
+		prompt_tokens: current.prompt_tokens + (usage?.prompt_tokens || 0),
+		completion_tokens: current.completion_tokens + (usage?.completion_tokens || 0),
+		total_tokens: current.total_tokens + (usage?.total_tokens || 0)
+	};
+}
+
+/**
+ * Pool state in KV. Read-modify-write is not atomic, so concurrent isolates can lose
+ * failure marks and undercount usage; leases are verified after writing but remain best effort.
+ */
+export class KVPoolStore implements PoolStore {
+	readonly stateReadLimit = SELECTION_SAMPLE_SIZE; // Three KV reads per account
+
+	constructor(private kv: KVNamespace, private vault: CredentialVault) {}
+
+	async getPoolStates(accountIds: string[], date: string): Promise<Record<string, PoolState>> {
+		const states = await Promise.all(accountIds.map(async accountId => ({
+			failure: await this.getFailure(accountId),
+			usage: await this.getUsage(accountId, date),
+			disabled: await this.kv.get(`${KV_DISABLED_PREFIX}${accountId}`) !== null
+		})));
+		return Object.fromEntries(accountIds.map((accountId, i) => [accountId, states[i]]));
+	}
+
+	async getCredentials(accountId: string): Promise<OAuth2Credentials | null> {
+		return await this.vault.load(accountId);
+	}
+
+	async saveCredentials(accountId: string, credentials: OAuth2Credentials): Promise<void> {
+		await this.vault.save(accountId, credentials);
+	}
+
+	async getFailure(accountId: string): Promise<AccountFailure | null> {
+		return await this.kv.get(`${KV_FAILURE_PREFIX}${accountId}`, 'json') as AccountFailure | null;
+	}
+
+	async recordFailure(accountId: string, reason: AccountFailureReason, errorMessage: string): Promise<AccountFailure> {
+		const failure = nextFailure(await this.getFailure(accountId), reason, errorMessage);
+		await this.kv.put(`${KV_FAILURE_PREFIX}${accountId}`, JSON.stringify(failure), { expirationTtl: FAILURE_RECORD_TTL });
+		return failure;
+	}
+
+	async claimProbe(accountId: string): Promise<boolean> {
+		const failure = await this.getFailure(accountId);
+		if (!failure || failure.cooldownUntil > Date.now()) {
+			return false;
+		}
+
+		const claimed: AccountFailure = { ...failure, cooldownUntil: Date.now() + PROBE_WINDOW_MS };
+		await this.kv.put(`${KV_FAILURE_PREFIX}${accountId}`, JSON.stringify(claimed), { expirationTtl: FAILURE_RECORD_TTL });
+		return true;
+	}
+
+	async clearFailure(accountId: string): Promise<void> {
+		await this.kv.delete(`${KV_FAILURE_PREFIX}${accountId}`);
+	}
+
+	async getUsage(accountId: string, date: string): Promise<UsageCounters> {
+		const stored = await this.kv.get(`${KV_USAGE_PREFIX}${accountId}:${date}`, 'json') as Partial<UsageCounters> | null;
+		return { ...EMPTY_USAGE, ...stored };
+	}
+
+	async recordUsage(accountId: string, date: string, usage?: TokenUsage | null): Promise<void> {
+		const updated = addUsage(await this.getUsage(accountId, date), usage);
+		await this.kv.put(`${KV_USAGE_PREFIX}${accountId}:${date}`, JSON.stringify(updated), { expirationTtl: USAGE_RECORD_TTL });
+	}
+
+	async setDisabled(accountId: string, disabled: boolean): Promise<void> {
+		// One key per account, so concurrent changes to different accounts can't overwrite each other
+		if (disabled) {
+			await this.kv.put(`${KV_DISABLED_PREFIX}${accountId}`, '1');
+		} else {
+			await this.kv.delete(`${KV_DISABLED_PREFIX}${accountId}`);
+		}
+	}
+
+	/**
+	 * KV has no compare-and-swap, so write our lease, let concurrent writers land, then verify we won
+	 */
+	async acquireRefreshLease(accountId: string): Promise<string | null> {
+		const key = `${KV_REFRESH_LOCK_PREFIX}${accountId}`;
+
+		const existing = await this.kv.get(key, 'json') as RefreshLease | null;
+		if (existing && existing.expiresAt > Date.now()) {
+			return null;
+		}
+
+		const lease: RefreshLease = { owner: crypto.randomUUID(), expiresAt: Date.now() + REFRESH_LEASE_MS };
+		await this.kv.put(key, JSON.stringify(lease), { expirationTtl: REFRESH_LEASE_TTL });
+
+		await new Promise(resolve => setTimeout(resolve, REFRESH_LEASE_VERIFY_DELAY_MS));
+		const winner = await this.kv.get(key, 'json') as RefreshLease | null;
+		return winner?.owner === lease.owner ? lease.owner : null;
+	}
+
+	async releaseRefreshLease(accountId: string, owner: string): Promise<void> {
+		const key = `${KV_REFRESH_LOCK_PREFIX}${accountId}`;
+		const lease = await this.kv.get(key, 'json') as RefreshLease | null;
+		if (lease?.owner === owner) {
+			await this.kv.delete(key);
+		}
+	}
+
+	async nextRoundRobinCursor(): Promise<number> {
+		const cursor = isolateRoundRobinCursor;
+		isolateRoundRobinCursor = (cursor + 1) % Number.MAX_SAFE_INTEGER;
+		return cursor;
+	}
+
+	async removeAccount(accountId: string): Promise<void> {
+		// Credentials themselves live under ACCOUNT: and are managed by the caller
+		await this.kv.delete(`${KV_FAILURE_PREFIX}${accountId}`);
+		await this.kv.delete(`${KV_REFRESH_LOCK_PREFIX}${accountId}`);
+	}
+}
+
+/**
+ * Pool state owned by the AccountCoordinator Durable Object, which applies every update atomically.
+ * Credentials are still read from KV (where the setup scripts write them); the coordinator keeps
+ * the latest refreshed copy so other isolates never see a stale, already-rotated refresh token.
+ */
+export class CoordinatorPoolStore implements PoolStore {
+	readonly stateReadLimit = Infinity; // One RPC covers the whole pool, answered from the coordinator's memory
+	private coordinator: DurableObjectStub<AccountCoordinator>;
+
+	constructor(private vault: CredentialVault, namespace: NonNullable<Env['ACCOUNT_COORDINATOR']>) {
+		this.coordinator = namespace.get(namespace.idFromName(ACCOUNT_COORDINATOR_NAME));
+	}
+
+	/**
+	 * Prefer the coordinator's refreshed copy unless KV holds newer credentials (e.g. re-uploaded by an admin).
+	 * An account removed from KV is gone, whatever the coordinator still remembers.
+	 */
+	private pickCredentials(stored: OAuth2Credentials | null, refreshed: OAuth2Credentials | null): OAuth2Credentials | null {
+		if (!stored) {
+			return null;
+		}
+		return refreshed && refreshed.expiry_date > stored.expiry_date ? refreshed : stored;
+	}
+
+	async getPoolStates(accountIds: string[], date: string): Promise<Record<string, PoolState>> {
+		return await this.coordinator.getPoolStates(accountIds, date);
+	}
+
+	async getCredentials(accountId: string): Promise<OAuth2Credentials | null> {
+		const [stored, sealed] = await Promise.all([
+			this.vault.load(accountId),
+			this.coordinator.getCredentials(accountId)
+		]);
+		// A copy sealed with a key that has since been removed is skipped; KV holds the account's credentials too
+		const refreshed = sealed ? await this.vault.open(accountId, sealed).then(({ credentials }) => credentials, () => null) : null;
+		return this.pickCredentials(stored, refreshed);
+	}
+
+	async saveCredentials(accountId: string, credentials: OAuth2Credentials): Promise<void> {
+		// The coordinator's copy is encrypted like the KV one
+		await this.coordinator.saveCredentials(accountId, await this.vault.seal(accountId, credentials));
+		await this.vault.save(accountId, credentials);
+	}
+
+	async getFailure(accountId: string): Promise<AccountFailure | null> {
+		return await this.coordinator.getFailure(accountId);
+	}
+
+	async recordFailure(accountId: string, reason: AccountFailureReason, errorMessage: string): Promise<AccountFailure> {
+		return await this.coordinator.recordFailure(accountId, reason, errorMessage);
+	}
+
+	async claimProbe(accountId: string): Promise<boolean> {
+		return await this.coordinator.claimProbe(accountId);
+	}
+
+	async clearFailure(accountId: string): Promise<void> {
+		await this.coordinator.clearFailure(accountId);
+	}
+
+	async getUsage(accountId: string, date: string): Promise<UsageCounters> {
+		return await this.coordinator.getUsage(accountId, date);
+	}
+
+	async recordUsage(accountId: string, date: string, usage?: TokenUsage | null): Promise<void> {
+		await this.coordinator.recordUsage(accountId, date, usage ?? null);
+	}
+
+	async setDisabled(accountId: string, disabled: boolean): Promise<void> {
+		await this.coordinator.setDisabled(accountId, disabled);
+	}
+
+	async acquireRefreshLease(accountId: string): Promise<string | null> {
+		return await this.coordinator.acquireRefreshLease(accountId);
+	}
+
+	async releaseRefreshLease(accountId: string, owner: string): Promise<void> {
+		await this.coordinator.releaseRefreshLease(accountId, owner);
+	}
+
+	async nextRoundRobinCursor(): Promise<number> {
+		return await this.coordinator.nextRoundRobinCursor();
+	}
+
+	async removeAccount(accountId: string): Promise<void> {
+		await this.coordinator.removeAccount(accountId);
+	}
+}
+
+/**
+ * Use the coordinator when it is bound, falling back to plain KV for existing deployments
+ */
+export function createPoolStore(env: Env, vault: CredentialVault): PoolStore {
+	if (env.ACCOUNT_COORDINATOR) {
+		return new CoordinatorPoolStore(vault, env.ACCOUNT_COORDINATOR);
+	}
+	return new KVPoolStore(env.QWEN_TOKEN_CACHE, vault);
+}
@@ -0,0 +1,26 @@
+import QRCode from 'qrcode-terminal/vendor/QRCode';
+import QRErrorCorrectLevel from 'qrcode-terminal/vendor/QRCode/QRErrorCorrectLevel';
+
+const QUIET_ZONE = 4; // Modules of white border required around the symbol
+
+/**
+ * Render text as a QR code SVG, generated locally so verification links never reach a third-party service
+ */
+export function renderQRCodeSVG(text: string): string {
+	const qr = new QRCode(-1, QRErrorCorrectLevel.M);
+	qr.addData(text);
+	qr.make();
+
+	const moduleCount = qr.getModuleCount();
+	const size = moduleCount + QUIET_ZONE * 2;
+	let path = '';
+	for (let row = 0; row < moduleCount; row++) {
+		for (let col = 0; col < moduleCount; col++) {
+			if (qr.isDark(row, col)) {
+				path += `M${col + QUIET_ZONE},${row + QUIET_ZONE}h1v1h-1z`;
+			}
+		}
+	}
+
+	return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges"><rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+}
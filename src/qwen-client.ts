@@ -1,16 +1,61 @@
-import { Env, ChatCompletionRequest, ChatCompletionResponse, ModelsResponse, ChatCompletionStreamChunk, OAuth2Credentials } from './types';
+import { Context } from 'hono';
+import { Env, ChatCompletionRequest, ChatCompletionResponse, ModelsResponse, ChatCompletionStreamChunk, ChatCompletionStreamChoice, OAuth2Credentials, TokenUsage } from './types';
 import { MultiAccountAuthManager } from './multi-auth';
-import { QWEN_API_BASE_URL, DEFAULT_MODEL } from './config';
+import { QWEN_API_BASE_URL, DEFAULT_MODEL, DEFAULT_REQUEST_TIMEOUT_MS, DEFAULT_STREAM_IDLE_TIMEOUT_MS } from './config';
+import { buildUpstreamPayload } from './request-params';
+import { readSSEEvents } from './sse';
+import { CompletionOutcome, UsageLedger, createUsageLedger } from './usage-ledger';
+import { incrementCounter, modelLabel, observeHistogram } from './metrics';
+import { Logger, createLogger } from './logger';
+
+// Error payload of an upstream `event: error` or `{"error": ...}` chunk
+interface UpstreamStreamError {
+	message?: string;
+	type?: string;
+	code?: string | number | null;
+}
+
+export interface ChatCompletionOptions {
+	signal?: AbortSignal; // Client abort signal (e.g. the incoming request's signal)
+	apiKeyId?: string; // API key the request is recorded under in the usage ledger
+	logger?: Logger; // Request-scoped logger (a fresh one without request ID otherwise)
+	onUsage?: (usage: TokenUsage) => Promise<void>; // Called with upstream token usage after a successful request
+}
+
+// Abort wiring shared by all upstream calls of one client request
+interface RequestContext {
+	controller: AbortController; // Aborted when the client goes away
+	signal: AbortSignal; // Client abort or overall timeout, passed to fetch
+	timeoutMs: number;
+	idleTimeoutMs: number;
+	onUsage?: (usage: TokenUsage) => Promise<void>; // From ChatCompletionOptions
+	model: string;
+	apiKeyId: string | null;
+	startedAt: number;
+	logger: Logger;
+	attempt: number; // Upstream attempt number, counting retries and stream failover
+}
+
+/**
+ * Completion options for a route's client request: its abort signal and the API key it runs under
+ */
+export function requestOptions(c: Context): ChatCompletionOptions {
+	return { signal: c.req.raw.signal, apiKeyId: c.get('apiKey')?.id, logger: c.get('logger'), onUsage: c.get('recordApiKeyUsage') };
+}
 
 /**
  * Qwen API client for handling chat completions and models.
  * Simplified version adapted from the existing proxy for Cloudflare Workers.
  */
 export class QwenAPIClient {
+	private env: Env;
 	private authManager: MultiAccountAuthManager;
+	private ledger: UsageLedger;
 
     constructor(env: Env, authManager?: MultiAccountAuthManager) {
+        this.env = env;
         this.authManager = authManager ?? new MultiAccountAuthManager(env);
+        this.ledger = createUsageLedger(env);
     }
 
 	/**
@@ -42,18 +87,17 @@ export class QwenAPIClient {
 	/**
 	 * Handle chat completion requests (both streaming and non-streaming)
 	 */
-	async chatCompletions(request: ChatCompletionRequest): Promise<ChatCompletionResponse | ReadableStream> {
-		const { model = DEFAULT_MODEL, stream = false, ...otherParams } = request;
+	async chatCompletions(request: ChatCompletionRequest, options: ChatCompletionOptions = {}): Promise<ChatCompletionResponse | ReadableStream> {
+		const { model = DEFAULT_MODEL, stream = false } = request;
+		const ctx = this.createRequestContext(model, options);
 		let retryCount = 0;
 		const maxRetries = 1; // Allow one retry with different account
 
 		while (retryCount <= maxRetries) {
+			ctx.attempt = retryCount + 1;
 			try {
-				// Prepare request body for Qwen API
-				const qwenRequest = {
-					model,
-					...otherParams
-				};
+				// Prepare request body for Qwen API (all parameters except those upstream rejects)
+				const { stream: _stream, ...qwenRequest } = buildUpstreamPayload({ ...request, model });
 
 				// Get authenticated access token and credentials
 				await this.authManager.initializeAuth();
@@ -65,41 +109,130 @@ export class QwenAPIClient {
 					throw new Error('Failed to obtain access token');
 				}
 
-				console.log(`Using account: ${accountId || 'default'}`);
+				ctx.logger.set({ account: accountId || 'default' });
 
 				// Get API endpoint from credentials
 				const apiEndpoint = await this.getApiEndpoint(credentials);
 
 				if (stream) {
 					// Handle streaming response
-					return this.handleStreamingChatCompletion(model, qwenRequest, accessToken, apiEndpoint, accountId || 'default');
+					return await this.handleStreamingChatCompletion(model, qwenRequest, accessToken, apiEndpoint, accountId || 'default', ctx);
 				} else {
 					// Handle non-streaming response
-					return this.handleNonStreamingChatCompletion(model, qwenRequest, accessToken, apiEndpoint, accountId || 'default');
+					return await this.handleNonStreamingChatCompletion(model, qwenRequest, accessToken, apiEndpoint, accountId || 'default', ctx);
 				}
 			} catch (error) {
-				console.log(`Chat completion attempt ${retryCount + 1} failed:`, error);
+				ctx.logger.warn('Upstream attempt failed', { attempt: ctx.attempt, error });
+
+				// Client disconnects and timeouts are not the account's fault, don't rotate
+				if (ctx.signal.aborted) {
+					throw await this.failCompletion(ctx, this.abortError(ctx));
+				}
 				
 				// Handle error with account rotation
 				const errorHandling = await this.authManager.handleApiError(error, retryCount);
 				
 				if (!errorHandling.shouldRetry) {
-					throw error;
+					throw await this.failCompletion(ctx, error);
 				}
 
 				if (errorHandling.newAccount) {
-					console.log('Switching to different account for retry...');
+					ctx.logger.info('Switching to another account for retry', { attempt: ctx.attempt });
 					const switched = await this.authManager.switchAccount();
 					if (!switched) {
-						throw new Error('No alternative accounts available for retry');
+						throw await this.failCompletion(ctx, new Error('No alternative accounts available for retry'));
 					}
+					incrementCounter('qwen_proxy_account_switches_total', { phase: 'request' });
 				}
 
+				incrementCounter('qwen_proxy_retries_total', { phase: 'request' });
 				retryCount++;
 			}
 		}
 
-		throw new Error('Maximum retries exceeded');
+		throw await this.failCompletion(ctx, new Error('Maximum retries exceeded'));
+	}
+
+	/**
+	 * Combine the client's abort signal with the overall request timeout
+	 */
+	private createRequestContext(model: string, { signal: clientSignal, apiKeyId, logger = createLogger(this.env), onUsage }: ChatCompletionOptions): RequestContext {
+		const timeoutMs = parseInt(this.env.REQUEST_TIMEOUT_MS || '', 10) || DEFAULT_REQUEST_TIMEOUT_MS;
+		const idleTimeoutMs = parseInt(this.env.STREAM_IDLE_TIMEOUT_MS || '', 10) || DEFAULT_STREAM_IDLE_TIMEOUT_MS;
+		const controller = new AbortController();
+
+		// Pool decisions made for this request are logged with its ID
+		logger.set({ model });
+		this.authManager.logger = logger;
+
+		if (clientSignal) {
+			if (clientSignal.aborted) {
+				controller.abort(clientSignal.reason);
+			} else {
+				clientSignal.addEventListener('abort', () => controller.abort(clientSignal.reason), { once: true });
+			}
+		}
+
+		return {
+			controller,
+			signal: AbortSignal.any([controller.signal, AbortSignal.timeout(timeoutMs)]),
+			timeoutMs,
+			idleTimeoutMs,
+			onUsage,
+			model,
+			apiKeyId: apiKeyId ?? null,
+			startedAt: Date.now(),
+			logger,
+			attempt: 1
+		};
+	}
+
+	/**
+	 * Error describing why a request context was aborted
+	 */
+	private abortError(ctx: RequestContext): Error {
+		if (ctx.controller.signal.aborted) {
+			return new Error('Request aborted by client');
+		}
+		return new Error(`Upstream request timed out after ${ctx.timeoutMs}ms`);
+	}
+
+	/**
+	 * Add the finished request to the usage ledger; a ledger outage never fails the request
+	 */
+	private async recordCompletion(ctx: RequestContext, accountId: string | null, outcome: CompletionOutcome, usage: TokenUsage | null): Promise<void> {
+		const latencyMs = Date.now() - ctx.startedAt;
+		ctx.logger.info('Completion finished', {
+			account: accountId,
+			outcome,
+			attempts: ctx.attempt,
+			duration_ms: latencyMs,
+			prompt_tokens: usage?.prompt_tokens ?? null,
+			completion_tokens: usage?.completion_tokens ?? null
+		});
+
+		try {
+			await this.ledger.record({
+				timestamp: ctx.startedAt,
+				apiKeyId: ctx.apiKeyId,
+				accountId,
+				model: ctx.model,
+				outcome,
+				latencyMs,
+				usage
+			});
+		} catch (error) {
+			ctx.logger.error('Failed to record usage ledger entry', { error });
+		}
+	}
+
+	/**
+	 * Record a request that failed before a response was returned, passing its error through
+	 */
+	private async failCompletion(ctx: RequestContext, error: unknown): Promise<unknown> {
+		const outcome = ctx.controller.signal.aborted ? 'aborted' : ctx.signal.aborted ? 'timeout' : 'error';
+		await this.recordCompletion(ctx, this.authManager.getCurrentAccountId(), outcome, null);
+		return error;
 	}
 
 	/**
@@ -110,28 +243,17 @@ export class QwenAPIClient {
 		requestBody: Record<string, unknown>,
 		accessToken: string,
 		apiEndpoint: string,
-		accountId: string
+		accountId: string,
+		ctx: RequestContext
 	): Promise<ChatCompletionResponse> {
-		// Prepare payload matching the working proxy exactly
+		// stream_options is only valid for streaming requests
+		const { stream_options: _streamOptions, ...body } = requestBody;
 		const payload = {
-			model: model || DEFAULT_MODEL,
-			messages: requestBody.messages,
-			temperature: requestBody.temperature,
-			max_tokens: requestBody.max_tokens,
-			top_p: requestBody.top_p,
-			tools: requestBody.tools,
-			tool_choice: requestBody.tool_choice
+			...body,
+			model: model || DEFAULT_MODEL
 		};
 
-		const response = await fetch(`${apiEndpoint}/chat/completions`, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${accessToken}`,
-				'User-Agent': 'QwenOpenAIProxy/1.0.0 (Cloudflare Workers)'
-			},
-			body: JSON.stringify(payload)
-		});
+		const response = await this.postChatCompletion(payload, accessToken, apiEndpoint, ctx);
 
 		if (!response.ok) {
 			const errorText = await response.text();
@@ -140,6 +262,14 @@ export class QwenAPIClient {
 
 		const qwenResponse = await response.json() as any;
 
+		// Count the request against the account's daily quota
+		await this.authManager.recordAccountUsage(accountId, qwenResponse.usage);
+		await this.authManager.recordAccountSuccess(accountId);
+		if (qwenResponse.usage) {
+			await ctx.onUsage?.(qwenResponse.usage);
+		}
+		await this.recordCompletion(ctx, accountId, 'success', qwenResponse.usage ?? null);
+
 		// Transform Qwen response to OpenAI format (they're already compatible)
 		return {
 			id: qwenResponse.id || `chatcmpl-${crypto.randomUUID()}`,
@@ -159,29 +289,84 @@ export class QwenAPIClient {
 		requestBody: Record<string, unknown>,
 		accessToken: string,
 		apiEndpoint: string,
-		accountId: string
+		accountId: string,
+		ctx: RequestContext
 	): Promise<ReadableStream> {
-		// Prepare payload matching the working proxy exactly
+		// Always ask upstream for usage; it is only forwarded when the client requested it
+		const streamOptions = requestBody.stream_options as { include_usage?: boolean } | undefined;
+		const includeUsage = !!streamOptions?.include_usage;
 		const payload = {
+			...requestBody,
 			model: model || DEFAULT_MODEL,
-			messages: requestBody.messages,
-			temperature: requestBody.temperature,
-			max_tokens: requestBody.max_tokens,
-			top_p: requestBody.top_p,
-			tools: requestBody.tools,
-			tool_choice: requestBody.tool_choice,
-			stream: true
+			stream: true,
+			stream_options: { ...streamOptions, include_usage: true }
 		};
 
-		const response = await fetch(`${apiEndpoint}/chat/completions`, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${accessToken}`,
-				'User-Agent': 'QwenOpenAIProxy/1.0.0 (Cloudflare Workers)'
-			},
-			body: JSON.stringify(payload)
-		});
+		const reader = await this.openUpstreamStream(payload, accessToken, apiEndpoint, ctx);
+
+		// Create a transform stream to process SSE data
+		const { readable, writable } = new TransformStream();
+		const writer = writable.getWriter();
+
+		// The writable errors when the client cancels the response; stop the upstream request too
+		writer.closed.catch(() => ctx.controller.abort(new Error('Client disconnected')));
+
+		// Process the stream
+		this.processSSEStream(reader, writer, model, includeUsage, ctx, (error) => this.reopenStreamOnAnotherAccount(error, payload, ctx));
+
+		return readable;
+	}
+
+	/**
+	 * POST a chat completion upstream, timing how long the response headers took
+	 */
+	private async postChatCompletion(
+		payload: Record<string, unknown>,
+		accessToken: string,
+		apiEndpoint: string,
+		ctx: RequestContext
+	): Promise<Response> {
+		const startedAt = Date.now();
+		const model = modelLabel(String(payload.model));
+		const signal = ctx.signal;
+		try {
+			const response = await fetch(`${apiEndpoint}/chat/completions`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					'Authorization': `Bearer ${accessToken}`,
+					'User-Agent': 'QwenOpenAIProxy/1.0.0 (Cloudflare Workers)'
+				},
+				body: JSON.stringify(payload),
+				signal
+			});
+			observeHistogram('qwen_proxy_upstream_duration_seconds', { model, status: String(response.status) }, (Date.now() - startedAt) / 1000);
+			ctx.logger.info('Upstream response', {
+				account: this.authManager.getCurrentAccountId(),
+				attempt: ctx.attempt,
+				upstream_status: response.status,
+				duration_ms: Date.now() - startedAt
+			});
+			return response;
+		} catch (error) {
+			// Client disconnects and the overall timeout cut the measurement short
+			if (!signal.aborted) {
+				observeHistogram('qwen_proxy_upstream_duration_seconds', { model, status: 'error' }, (Date.now() - startedAt) / 1000);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Send a streaming request upstream and return the body reader
+	 */
+	private async openUpstreamStream(
+		payload: Record<string, unknown>,
+		accessToken: string,
+		apiEndpoint: string,
+		ctx: RequestContext
+	): Promise<ReadableStreamDefaultReader<Uint8Array>> {
+		const response = await this.postChatCompletion(payload, accessToken, apiEndpoint, ctx);
 
 		if (!response.ok) {
 			const errorText = await response.text();
@@ -192,99 +377,288 @@ export class QwenAPIClient {
 			throw new Error('No response body from Qwen API');
 		}
 
-		// Create a transform stream to process SSE data
-		const { readable, writable } = new TransformStream();
-		const writer = writable.getWriter();
-		const reader = response.body.getReader();
-		const decoder = new TextDecoder();
+		return response.body.getReader();
+	}
 
-		// Process the stream
-		this.processSSEStream(reader, decoder, writer, model);
+	/**
+	 * Re-issue a streaming request on another account after the upstream stream failed.
+	 * Returns null when failover is disabled or no other account can take the request.
+	 */
+	private async reopenStreamOnAnotherAccount(
+		error: unknown,
+		payload: Record<string, unknown>,
+		ctx: RequestContext
+	): Promise<ReadableStreamDefaultReader<Uint8Array> | null> {
+		if (this.env.STREAM_FAILOVER === 'false' || ctx.signal.aborted) {
+			return null;
+		}
 
-		return readable;
+		const errorHandling = await this.authManager.handleApiError(error, 0);
+		if (!errorHandling.shouldRetry) {
+			return null;
+		}
+
+		if (errorHandling.newAccount) {
+			ctx.logger.info('Upstream stream failed, switching to another account', { attempt: ctx.attempt });
+			const switched = await this.authManager.switchAccount();
+			if (!switched) {
+				ctx.logger.warn('No alternative accounts available for stream failover');
+				return null;
+			}
+			incrementCounter('qwen_proxy_account_switches_total', { phase: 'stream' });
+		}
+
+		const accessToken = this.authManager.getAccessToken();
+		if (!accessToken) {
+			return null;
+		}
+
+		try {
+			const apiEndpoint = await this.getApiEndpoint(this.authManager.getCurrentCredentials());
+			ctx.attempt++;
+			ctx.logger.set({ account: this.authManager.getCurrentAccountId() || 'default' });
+			ctx.logger.info('Re-issuing stream on another account', { attempt: ctx.attempt });
+			incrementCounter('qwen_proxy_retries_total', { phase: 'stream' });
+			return await this.openUpstreamStream(payload, accessToken, apiEndpoint, ctx);
+		} catch (retryError) {
+			ctx.logger.error('Stream failover request failed', { attempt: ctx.attempt, error: retryError });
+			return null;
+		}
 	}
 
 	/**
-	 * Process Server-Sent Events stream from Qwen API
+	 * Process Server-Sent Events stream from Qwen API.
+	 * Every chunk of one response shares the same id and created timestamp, a role chunk
+	 * leads each choice, every choice ends with a finish_reason, and usage is sent as a
+	 * final chunk only when the client asked for it via stream_options.include_usage.
+	 *
+	 * If the upstream stream fails before any output reached the client, `failover` is
+	 * asked once for a replacement stream; otherwise the client gets an error frame.
 	 */
 	private async processSSEStream(
 		reader: ReadableStreamDefaultReader<Uint8Array>,
-		decoder: TextDecoder,
 		writer: WritableStreamDefaultWriter<Uint8Array>,
-		model: string
+		model: string,
+		includeUsage: boolean,
+		ctx: RequestContext,
+		failover: (error: unknown) => Promise<ReadableStreamDefaultReader<Uint8Array> | null>
 	): Promise<void> {
-		let buffer = '';
+		const encoder = new TextEncoder();
+		let droppedChunks = 0;
+		let id: string | null = null;
+		let created: number | null = null;
+		let responseModel = model;
+		let usage: TokenUsage | null = null;
+		let emittedOutput = false;
+		let failoverUsed = false;
+		const startedChoices = new Set<number>();
+		const finishedChoices = new Set<number>();
+		const toolCallChoices = new Set<number>();
+
+		const writeChunk = (choices: ChatCompletionStreamChoice[], chunkUsage?: TokenUsage | null) => {
+			const formattedChunk: ChatCompletionStreamChunk = {
+				id: id || `chatcmpl-${crypto.randomUUID()}`,
+				object: 'chat.completion.chunk',
+				created: created || Math.floor(Date.now() / 1000),
+				model: responseModel,
+				choices,
+				...(chunkUsage !== undefined && { usage: chunkUsage })
+			};
+			return writer.write(encoder.encode(`data: ${JSON.stringify(formattedChunk)}\n\n`));
+		};
 
-		try {
-			while (true) {
-				const { done, value } = await reader.read();
-				if (done) break;
-
-				buffer += decoder.decode(value, { stream: true });
-				const lines = buffer.split('\n');
-				buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-				for (const line of lines) {
-					if (line.trim() === '') continue;
-					if (line.startsWith('data: ')) {
-						const data = line.substring(6);
-						if (data === '[DONE]') {
-							await writer.write(new TextEncoder().encode('data: [DONE]\n\n'));
-							await writer.close();
-							return;
+		const logDroppedChunks = () => {
+			if (droppedChunks > 0) {
+				ctx.logger.warn('Dropped unparseable SSE chunks', { dropped_chunks: droppedChunks, response_id: id });
+			}
+		};
+
+		// Close any choice that never reported a finish_reason, then emit usage and [DONE]
+		const finishStream = async () => {
+			const unfinished = [...startedChoices].filter(index => !finishedChoices.has(index));
+			if (unfinished.length > 0) {
+				await writeChunk(unfinished.map(index => ({
+					index,
+					delta: {},
+					finish_reason: toolCallChoices.has(index) ? 'tool_calls' : 'stop'
+				})));
+			}
+			if (includeUsage) {
+				await writeChunk([], usage);
+			}
+			await writer.write(encoder.encode('data: [DONE]\n\n'));
+			await writer.close();
+			logDroppedChunks();
+		};
+
+		const writeErrorFrame = async (error: UpstreamStreamError) => {
+			const frame = {
+				error: {
+					message: error.message || 'Upstream stream error',
+					type: error.type || 'upstream_error',
+					code: error.code ?? null
+				}
+			};
+			try {
+				await writer.write(encoder.encode(`data: ${JSON.stringify(frame)}\n\n`));
+				await writer.write(encoder.encode('data: [DONE]\n\n'));
+				await writer.close();
+			} catch (writeError) {
+				ctx.logger.error('Failed to write error frame', { error: writeError });
+			}
+			logDroppedChunks();
+		};
+
+		/**
+		 * Forward one upstream stream. Resolves to null once [DONE] (or a clean end) was
+		 * written, or to the failure when the upstream stream broke.
+		 */
+		const pump = async (upstream: ReadableStreamDefaultReader<Uint8Array>): Promise<{ error: unknown; upstream?: UpstreamStreamError } | null> => {
+			try {
+				for await (const event of readSSEEvents(upstream, ctx.idleTimeoutMs)) {
+					if (event.data === '[DONE]') {
+						return null;
+					}
+
+					let chunk: ChatCompletionStreamChunk & { error?: UpstreamStreamError };
+					try {
+						chunk = JSON.parse(event.data);
+					} catch (parseError) {
+						if (event.event === 'error') {
+							// Non-JSON error event, surface the raw text
+							return { error: new Error(`Qwen API stream error: ${event.data}`), upstream: { message: event.data } };
 						}
+						droppedChunks++;
+						ctx.logger.debug('Dropped unparseable SSE chunk', { event: event.event, error: parseError });
+						continue;
+					}
+
+					// Upstream error events become OpenAI-style error frames
+					if (event.event === 'error' || chunk.error) {
+						const upstreamError = chunk.error || (chunk as unknown as UpstreamStreamError);
+						return {
+							error: new Error(`Qwen API stream error: ${upstreamError.code ?? ''} - ${upstreamError.message || 'Unknown error'}`),
+							upstream: upstreamError
+						};
+					}
+
+					// Fix id, timestamp and model from the first chunk for the whole response
+					if (id === null) {
+						id = chunk.id || `chatcmpl-${crypto.randomUUID()}`;
+						created = chunk.created || Math.floor(Date.now() / 1000);
+						responseModel = chunk.model || model;
+					}
 
-						try {
-							const chunk = JSON.parse(data) as ChatCompletionStreamChunk;
-							
-							// Ensure chunk has proper OpenAI format
-							const formattedChunk: ChatCompletionStreamChunk = {
-								id: chunk.id || `chatcmpl-${crypto.randomUUID()}`,
-								object: 'chat.completion.chunk',
-								created: chunk.created || Math.floor(Date.now() / 1000),
-								model: chunk.model || model,
-								choices: chunk.choices || []
-							};
-
-							const chunkData = `data: ${JSON.stringify(formattedChunk)}\n\n`;
-							await writer.write(new TextEncoder().encode(chunkData));
-						} catch (parseError) {
-							console.error('Failed to parse SSE chunk:', parseError);
-							// Skip invalid chunks
+					if (chunk.usage) {
+						usage = chunk.usage;
+					}
+
+					const choices = chunk.choices || [];
+					if (choices.length === 0) continue;
+
+					// Lead each choice with a role-only chunk, like OpenAI
+					const newChoices = choices.filter(choice => !startedChoices.has(choice.index) && !choice.delta?.role);
+					if (newChoices.length > 0) {
+						await writeChunk(newChoices.map(choice => ({
+							index: choice.index,
+							delta: { role: 'assistant', content: '' },
+							finish_reason: null
+						})));
+					}
+
+					for (const choice of choices) {
+						startedChoices.add(choice.index);
+						if (choice.delta?.content || choice.delta?.tool_calls?.length) {
+							emittedOutput = true;
+						}
+						if (choice.delta?.tool_calls?.length) {
+							toolCallChoices.add(choice.index);
+						}
+						if (choice.finish_reason) {
+							finishedChoices.add(choice.index);
 						}
 					}
+
+					await writeChunk(choices.map(choice => ({
+						index: choice.index,
+						delta: choice.delta || {},
+						finish_reason: choice.finish_reason ?? null
+					})));
 				}
+
+				// Ended without [DONE]: fine if every choice finished, otherwise the stream was cut off
+				const truncated = startedChoices.size === 0 || [...startedChoices].some(index => !finishedChoices.has(index));
+				return truncated ? { error: new Error('Qwen API stream ended unexpectedly') } : null;
+			} catch (error) {
+				return { error };
 			}
+		};
 
-			// Stream finished
-			await writer.write(new TextEncoder().encode('data: [DONE]\n\n'));
-			await writer.close();
-		} catch (error) {
-			console.error('Error processing stream:', error);
-			
-			// Send error chunk
-			const errorChunk = {
-				id: `chatcmpl-${crypto.randomUUID()}`,
-				object: 'chat.completion.chunk',
-				created: Math.floor(Date.now() / 1000),
-				model: model,
-				choices: [{
-					index: 0,
-					delta: {
-						content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-					},
-					finish_reason: 'stop'
-				}]
-			};
+		let current = reader;
+		while (true) {
+			const servingAccount = this.authManager.getCurrentAccountId();
+			const failure = await pump(current);
 
-			try {
-				await writer.write(new TextEncoder().encode(`data: ${JSON.stringify(errorChunk)}\n\n`));
-				await writer.write(new TextEncoder().encode('data: [DONE]\n\n'));
-			} catch (writeError) {
-				console.error('Failed to write error chunk:', writeError);
+			// Count the request against the serving account's daily quota (tokens only known on success)
+			if (servingAccount) {
+				await this.authManager.recordAccountUsage(servingAccount, failure ? null : usage);
+				if (!failure) {
+					await this.authManager.recordAccountSuccess(servingAccount);
+				}
 			}
-			
-			await writer.close();
+
+			if (!failure) {
+				if (usage) {
+					await ctx.onUsage?.(usage);
+				}
+				await this.recordCompletion(ctx, servingAccount, 'success', usage);
+				try {
+					await finishStream();
+				} catch (error) {
+					ctx.logger.error('Failed to finish stream', { error });
+				}
+				return;
+			}
+
+			await current.cancel().catch(() => {});
+
+			// Client went away: nothing to report to, just stop
+			if (ctx.controller.signal.aborted) {
+				ctx.logger.info('Client disconnected, upstream stream cancelled');
+				await this.recordCompletion(ctx, servingAccount, 'aborted', null);
+				await writer.abort().catch(() => {});
+				return;
+			}
+
+			// Overall timeout: no time left for a failover attempt
+			if (ctx.signal.aborted) {
+				ctx.logger.error('Upstream request timed out', { timeout_ms: ctx.timeoutMs });
+				await this.recordCompletion(ctx, servingAccount, 'timeout', null);
+				await writeErrorFrame({ message: `Upstream request timed out after ${ctx.timeoutMs}ms`, type: 'timeout_error', code: 504 });
+				return;
+			}
+
+			ctx.logger.warn('Upstream stream failed', { attempt: ctx.attempt, error: failure.error });
+
+			// Output already reached the client, so a retry would duplicate or contradict it
+			if (!emittedOutput && !failoverUsed) {
+				failoverUsed = true;
+				const replacement = await failover(failure.error);
+				if (replacement) {
+					current = replacement;
+					continue;
+				}
+			}
+
+			const message = failure.error instanceof Error ? failure.error.message : 'Unknown error';
+			const idleTimeout = message.includes('idle timeout');
+			await this.recordCompletion(ctx, servingAccount, idleTimeout ? 'timeout' : 'error', null);
+			await writeErrorFrame(failure.upstream || {
+				message,
+				type: idleTimeout ? 'timeout_error' : 'upstream_stream_error',
+				code: idleTimeout ? 504 : null
+			});
+			return;
 		}
 	}
 
@@ -317,6 +691,23 @@ export class QwenAPIClient {
 		};
 	}
 
+	/**
+	 * Check an account's access token against its Qwen API endpoint without spending quota
+	 * (lists models). Returns the response status.
+	 */
+	async probeAccount(credentials: OAuth2Credentials, signal?: AbortSignal): Promise<number> {
+		const apiEndpoint = await this.getApiEndpoint(credentials);
+		const response = await fetch(`${apiEndpoint}/models`, {
+			headers: {
+				'Authorization': `Bearer ${credentials.access_token}`,
+				'User-Agent': 'QwenOpenAIProxy/1.0.0 (Cloudflare Workers)'
+			},
+			signal
+		});
+		await response.body?.cancel();
+		return response.status;
+	}
+
 	/**
 	 * Get token cache information (deprecated for multi-account)
 	 */
@@ -330,6 +721,6 @@ export class QwenAPIClient {
 	 */
 	async clearTokenCache() {
 		// Multi-account system doesn't need cache clearing
-		console.log('Clear token cache not applicable for multi-account system');
+		this.authManager.logger.debug('Clear token cache not applicable for multi-account system');
 	}
 }
@@ -0,0 +1,100 @@
+import { ChatCompletionRequest } from './types';
+import { QWEN_UNSUPPORTED_PARAMETERS } from './config';
+
+/**
+ * Validation and payload preparation for chat completion parameters.
+ * Everything the client sends is forwarded upstream except parameters
+ * Qwen is known to reject, which are stripped and reported back.
+ */
+
+export interface ParameterValidationResult {
+	error?: { message: string; param: string };
+	unsupported: string[];
+}
+
+/**
+ * Validate OpenAI sampling and control parameters.
+ * Returns the first invalid parameter (if any) and the list of parameters the upstream rejects.
+ */
+export function validateChatParameters(request: ChatCompletionRequest): ParameterValidationResult {
+	const unsupported = QWEN_UNSUPPORTED_PARAMETERS.filter(param => (request as unknown as Record<string, unknown>)[param] !== undefined);
+	const fail = (param: string, message: string): ParameterValidationResult => ({ error: { param, message }, unsupported });
+
+	const ranges: Array<[keyof ChatCompletionRequest, number, number]> = [
+		['temperature', 0, 2],
+		['top_p', 0, 1],
+		['presence_penalty', -2, 2],
+		['frequency_penalty', -2, 2],
+		['top_logprobs', 0, 20]
+	];
+	for (const [param, min, max] of ranges) {
+		const value = request[param];
+		if (value === undefined || value === null) continue;
+		if (typeof value !== 'number' || value < min || value > max) {
+			return fail(param, `${param} must be a number between ${min} and ${max}`);
+		}
+	}
+
+	for (const param of ['max_tokens', 'max_completion_tokens', 'n'] as const) {
+		const value = request[param];
+		if (value === undefined || value === null) continue;
+		if (!Number.isInteger(value) || value < 1) {
+			return fail(param, `${param} must be a positive integer`);
+		}
+	}
+
+	if (request.seed !== undefined && request.seed !== null && !Number.isInteger(request.seed)) {
+		return fail('seed', 'seed must be an integer');
+	}
+
+	if (request.stop !== undefined && request.stop !== null) {
+		const stops = Array.isArray(request.stop) ? request.stop : [request.stop];
+		if (stops.length > 4 || stops.some(stop => typeof stop !== 'string')) {
+			return fail('stop', 'stop must be a string or an array of up to 4 strings');
+		}
+	}
+
+	if (request.response_format !== undefined && request.response_format !== null) {
+		const type = request.response_format.type;
+		if (type !== 'text' && type !== 'json_object' && type !== 'json_schema') {
+			return fail('response_format', `Unsupported response_format type: ${type}`);
+		}
+		if (type === 'json_schema' && !request.response_format.json_schema?.name) {
+			return fail('response_format', 'response_format.json_schema.name is required');
+		}
+	}
+
+	if (request.top_logprobs !== undefined && request.top_logprobs !== null && !request.logprobs) {
+		return fail('top_logprobs', 'logprobs must be true when top_logprobs is set');
+	}
+
+	return { unsupported };
+}
+
+/**
+ * Build the upstream request body: forward every client parameter except the rejected ones
+ */
+export function buildUpstreamPayload(request: ChatCompletionRequest): Record<string, unknown> {
+	const payload: Record<string, unknown> = { ...request };
+
+	for (const param of QWEN_UNSUPPORTED_PARAMETERS) {
+		delete payload[param];
+	}
+
+	// Qwen only understands the legacy max_tokens name
+	if (payload.max_completion_tokens !== undefined) {
+		if (payload.max_tokens === undefined) {
+			payload.max_tokens = payload.max_completion_tokens;
+		}
+		delete payload.max_completion_tokens;
+	}
+
+	// Drop explicit nulls so upstream defaults apply
+	for (const [key, value] of Object.entries(payload)) {
+		if (value === undefined || value === null) {
+			delete payload[key];
+		}
+	}
+
+	return payload;
+}
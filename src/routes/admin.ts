@@ -0,0 +1,168 @@
+import { Hono } from 'hono';
+import { Env, OAuth2Credentials } from '../types';
+import { MultiAccountAuthManager } from '../multi-auth';
+import { ACCOUNT_ID_PATTERN, ACCOUNT_LIST_PAGE_SIZE, ACCOUNT_LIST_MAX_PAGE_SIZE } from '../config';
+
+/**
+ * Admin routes for managing the account pool (mounted under /admin, behind admin auth).
+ */
+export const AdminRoute = new Hono<{ Bindings: Env }>();
+
+/**
+ * Check an uploaded oauth_creds.json payload; returns an error message if it is unusable
+ */
+function validateCredentials(body: unknown): string | null {
+	if (!body || typeof body !== 'object' || Array.isArray(body)) {
+		return 'Body must be the JSON contents of an oauth_creds.json file';
+	}
+
+	const creds = body as Partial<OAuth2Credentials>;
+	if (typeof creds.access_token !== 'string' || !creds.access_token) {
+		return 'access_token is required';
+	}
+	if (typeof creds.refresh_token !== 'string' || !creds.refresh_token) {
+		return 'refresh_token is required';
+	}
+	if (typeof creds.expiry_date !== 'number') {
+		return 'expiry_date must be a timestamp in milliseconds';
+	}
+	return null;
+}
+
+// List accounts with expiry, cooldown, usage and disabled state, one page of the account index at a time
+AdminRoute.get('/accounts', async (c) => {
+	const limit = c.req.query('limit') === undefined ? ACCOUNT_LIST_PAGE_SIZE : Number(c.req.query('limit'));
+	if (!Number.isInteger(limit) || limit < 1 || limit > ACCOUNT_LIST_MAX_PAGE_SIZE) {
+		return c.json({ error: `limit must be an integer from 1 to ${ACCOUNT_LIST_MAX_PAGE_SIZE}` }, 400);
+	}
+
+	const authManager = new MultiAccountAuthManager(c.env, c.get('logger'));
+	const page = await authManager.getAccountSummaryPage(c.req.query('cursor') || undefined, limit);
+
+	return c.json({
+		accounts: page.accounts,
+		cursor: page.cursor // Pass as ?cursor= for the next page; null on the last one
+	});
+});
+
+// Get one account
+AdminRoute.get('/accounts/:accountId', async (c) => {
+	const accountId = c.req.param('accountId');
+	const account = await new MultiAccountAuthManager(c.env, c.get('logger')).getAccountSummary(accountId);
+
+	if (!account) {
+		return c.json({ error: `Account '${accountId}' not found` }, 404);
+	}
+	return c.json(account);
+});
+
+// Upload an oauth_creds.json payload as a new account (?overwrite=true replaces existing credentials)
+AdminRoute.post('/accounts/:accountId', async (c) => {
+	const accountId = c.req.param('accountId');
+	if (!ACCOUNT_ID_PATTERN.test(accountId)) {
+		return c.json({ error: 'Account ID may only contain letters, digits, ".", "_" and "-" (max 64 characters)' }, 400);
+	}
+
+	const body = await c.req.json().catch(() => null);
+	const validationError = validateCredentials(body);
+	if (validationError) {
+		return c.json({ error: validationError }, 400);
+	}
+
+	const authManager = new MultiAccountAuthManager(c.env, c.get('logger'));
+	const exists = (await authManager.getAllAccountIds()).includes(accountId);
+	if (exists && c.req.query('overwrite') !== 'true') {
+		return c.json({ error: `Account '${accountId}' already exists. Use ?overwrite=true to replace its credentials.` }, 409);
+	}
+
+	const uploaded = body as OAuth2Credentials;
+	const credentials: OAuth2Credentials = {
+		access_token: uploaded.access_token,
+		refresh_token: uploaded.refresh_token,
+		scope: uploaded.scope || '',
+		token_type: uploaded.token_type || 'Bearer',
+		id_token: uploaded.id_token || '',
+		expiry_date: uploaded.expiry_date,
+		...(uploaded.resource_url && { resource_url: uploaded.resource_url })
+	};
+
+	await authManager.saveAccount(accountId, credentials);
+
+	return c.json(
+		{
+			account: accountId,
+			created: !exists,
+			expiresAt: new Date(credentials.expiry_date).toISOString()
+		},
+		exists ? 200 : 201
+	);
+});
+
+// Take an account out of rotation without deleting it
+AdminRoute.post('/accounts/:accountId/disable', async (c) => {
+	const accountId = c.req.param('accountId');
+	const authManager = new MultiAccountAuthManager(c.env, c.get('logger'));
+
+	if (!(await authManager.getAllAccountIds()).includes(accountId)) {
+		return c.json({ error: `Account '${accountId}' not found` }, 404);
+	}
+
+	await authManager.setAccountDisabled(accountId, true);
+	return c.json({ account: accountId, disabled: true });
+});
+
+// Put a disabled account back into rotation
+AdminRoute.post('/accounts/:accountId/enable', async (c) => {
+	const accountId = c.req.param('accountId');
+	const authManager = new MultiAccountAuthManager(c.env, c.get('logger'));
+
+	if (!(await authManager.getAllAccountIds()).includes(accountId)) {
+		return c.json({ error: `Account '${accountId}' not found` }, 404);
+	}
+
+	await authManager.setAccountDisabled(accountId, false);
+	return c.json({ account: accountId, disabled: false });
+});
+
+// Clear an account's failure mark so it is selectable again immediately
+AdminRoute.delete('/accounts/:accountId/failure', async (c) => {
+	const accountId = c.req.param('accountId');
+	const authManager = new MultiAccountAuthManager(c.env, c.get('logger'));
+
+	if (!(await authManager.getAllAccountIds()).includes(accountId)) {
+		return c.json({ error: `Account '${accountId}' not found` }, 404);
+	}
+
+	await authManager.clearAccountFailure(accountId);
+	return c.json({ account: accountId, failure: null });
+});
+
+// Delete an account and its pool state
+AdminRoute.delete('/accounts/:accountId', async (c) => {
+	const accountId = c.req.param('accountId');
+	const authManager = new MultiAccountAuthManager(c.env, c.get('logger'));
+
+	if (!(await authManager.getAllAccountIds()).includes(accountId)) {
+		return c.json({ error: `Account '${accountId}' not found` }, 404);
+	}
+
+	await authManager.deleteAccount(accountId);
+	return c.json({ account: accountId, deleted: true });
+});
+
+// Which key each account's credentials are encrypted with (null = plaintext)
+AdminRoute.get('/encryption', async (c) => {
+	const authManager = new MultiAccountAuthManager(c.env, c.get('logger'));
+	return c.json(await authManager.getCredentialEncryptionStatus());
+});
+
+// Rewrite unindexed, plaintext or retired-key credentials now, instead of waiting for the cron
+AdminRoute.post('/encryption/migrate', async (c) => {
+	const authManager = new MultiAccountAuthManager(c.env, c.get('logger'));
+	const results = await authManager.migrateStoredCredentials();
+	return c.json({
+		migrated: results.filter(result => result.status === 'encrypted' || result.status === 'rotated' || result.status === 'indexed').length,
+		pending: results.filter(result => result.status === 'busy' || result.status === 'failed').length,
+		results
+	});
+});
@@ -0,0 +1,86 @@
+import { Hono } from 'hono';
+import { Env, AnthropicMessagesRequest, ChatCompletionResponse } from '../types';
+import { QwenAPIClient, requestOptions } from '../qwen-client';
+import { validateChatParameters } from '../request-params';
+import { anthropicToChatRequest, chatResponseToAnthropic, chatStreamToAnthropic } from '../adapters/anthropic';
+
+/**
+ * Anthropic Messages API compatible routes, backed by the Qwen chat completions client.
+ */
+export const AnthropicRoute = new Hono<{ Bindings: Env }>();
+
+const anthropicError = (type: string, message: string) => ({
+	type: 'error',
+	error: { type, message }
+});
+
+// Messages endpoint
+AnthropicRoute.post('/messages', async (c) => {
+	try {
+		const body = await c.req.json<AnthropicMessagesRequest>();
+
+		c.get('logger').info('Anthropic messages request', {
+			model: body.model,
+			stream: !!body.stream,
+			message_count: body.messages?.length || 0
+		});
+
+		if (!body.messages || !Array.isArray(body.messages) || body.messages.length === 0) {
+			return c.json(anthropicError('invalid_request_error', 'messages: field required and must be a non-empty array'), 400);
+		}
+
+		if (!body.max_tokens) {
+			return c.json(anthropicError('invalid_request_error', 'max_tokens: field required'), 400);
+		}
+
+		if (body.stop_sequences !== undefined && (!Array.isArray(body.stop_sequences) || body.stop_sequences.some(sequence => typeof sequence !== 'string'))) {
+			return c.json(anthropicError('invalid_request_error', 'stop_sequences: must be an array of strings'), 400);
+		}
+
+		if (body.top_k !== undefined) {
+			c.get('logger').info('Ignoring top_k (not supported by the Qwen API)', { top_k: body.top_k });
+		}
+
+		const chatRequest = anthropicToChatRequest(body);
+		const validation = validateChatParameters(chatRequest);
+		if (validation.error) {
+			return c.json(anthropicError('invalid_request_error', validation.error.message), 400);
+		}
+
+		const qwenClient = new QwenAPIClient(c.env);
+		const result = await qwenClient.chatCompletions(chatRequest, requestOptions(c));
+
+		if (result instanceof ReadableStream) {
+			return new Response(chatStreamToAnthropic(result, body.model, c.get('logger'), body.stop_sequences), {
+				headers: {
+					'Content-Type': 'text/event-stream',
+					'Cache-Control': 'no-cache',
+					'Connection': 'keep-alive',
+					'Access-Control-Allow-Origin': '*',
+					'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+					'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-api-key, anthropic-version'
+				}
+			});
+		}
+
+		return c.json(chatResponseToAnthropic(result as ChatCompletionResponse, body.model, body.stop_sequences));
+	} catch (error) {
+		c.get('logger').error('Error in Anthropic messages', { error });
+
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+		if (errorMessage.includes('Authentication failed') || errorMessage.includes('access token')) {
+			return c.json(anthropicError('authentication_error', 'Authentication failed with Qwen. Please check your OAuth credentials.'), 401);
+		}
+
+		if (errorMessage.includes('quota') || errorMessage.includes('rate limit') || errorMessage.includes('429')) {
+			return c.json(anthropicError('rate_limit_error', 'Quota exceeded or rate limited. Please try again later.'), 429);
+		}
+
+		if (errorMessage.includes('timed out')) {
+			return c.json(anthropicError('timeout_error', errorMessage), 504);
+		}
+
+		return c.json(anthropicError('api_error', errorMessage), 500);
+	}
+});
@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import { Env, DeviceCodeResponse } from '../types';
 import { QwenAuthManager } from '../auth';
+import { createCredentialVault } from '../credential-vault';
 
 /**
  * Debug and utility routes for token management and testing.
@@ -10,9 +11,9 @@ export const DebugRoute = new Hono<{ Bindings: Env }>();
 // Token cache status
 DebugRoute.get('/token', async (c) => {
 	try {
-		console.log('Token cache status request received');
+		c.get('logger').info('Token cache status request received');
 		
-		const authManager = new QwenAuthManager(c.env);
+		const authManager = new QwenAuthManager(c.env, c.get('logger'));
 		const tokenInfo = await authManager.getCachedTokenInfo();
 		
 		return c.json({
@@ -21,7 +22,7 @@ DebugRoute.get('/token', async (c) => {
 			...tokenInfo
 		});
 	} catch (error) {
-		console.error('Error getting token cache info:', error);
+		c.get('logger').error('Error getting token cache info', { error });
 		
 		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 		return c.json(
@@ -39,9 +40,9 @@ DebugRoute.get('/token', async (c) => {
 // Clear token cache
 DebugRoute.delete('/token', async (c) => {
 	try {
-		console.log('Clear token cache request received');
+		c.get('logger').info('Clear token cache request received');
 		
-		const authManager = new QwenAuthManager(c.env);
+		const authManager = new QwenAuthManager(c.env, c.get('logger'));
 		await authManager.clearTokenCache();
 		
 		return c.json({
@@ -49,7 +50,7 @@ DebugRoute.delete('/token', async (c) => {
 			status: 'success'
 		});
 	} catch (error) {
-		console.error('Error clearing token cache:', error);
+		c.get('logger').error('Error clearing token cache', { error });
 		
 		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 		return c.json(
@@ -67,9 +68,9 @@ DebugRoute.delete('/token', async (c) => {
 // Initiate device flow for OAuth
 DebugRoute.post('/auth/initiate', async (c) => {
 	try {
-		console.log('Device flow initiation request received');
+		c.get('logger').info('Device flow initiation request received');
 		
-		const authManager = new QwenAuthManager(c.env);
+		const authManager = new QwenAuthManager(c.env, c.get('logger'));
 		const deviceFlow = await authManager.initiateDeviceFlow();
 		
 		// Don't expose code_verifier in the response for security
@@ -81,7 +82,7 @@ DebugRoute.post('/auth/initiate', async (c) => {
 			status: 'pending'
 		});
 	} catch (error) {
-		console.error('Error initiating device flow:', error);
+		c.get('logger').error('Error initiating device flow', { error });
 		
 		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 		return c.json(
@@ -113,9 +114,9 @@ DebugRoute.post('/auth/poll', async (c) => {
 			);
 		}
 		
-		console.log('Token poll request received');
+		c.get('logger').info('Token poll request received');
 		
-		const authManager = new QwenAuthManager(c.env);
+		const authManager = new QwenAuthManager(c.env, c.get('logger'));
 		const accessToken = await authManager.pollForToken(device_code, code_verifier);
 		
 		return c.json({
@@ -124,7 +125,7 @@ DebugRoute.post('/auth/poll', async (c) => {
 			status: 'success'
 		});
 	} catch (error) {
-		console.error('Error polling for token:', error);
+		c.get('logger').error('Error polling for token', { error });
 		
 		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 		return c.json(
@@ -142,9 +143,9 @@ DebugRoute.post('/auth/poll', async (c) => {
 // Test authentication (simple token validation)
 DebugRoute.get('/auth/test', async (c) => {
 	try {
-		console.log('Authentication test request received');
+		c.get('logger').info('Authentication test request received');
 		
-		const authManager = new QwenAuthManager(c.env);
+		const authManager = new QwenAuthManager(c.env, c.get('logger'));
 		await authManager.initializeAuth();
 		
 		const accessToken = authManager.getAccessToken();
@@ -166,7 +167,7 @@ DebugRoute.get('/auth/test', async (c) => {
 			);
 		}
 	} catch (error) {
-		console.error('Authentication test failed:', error);
+		c.get('logger').error('Authentication test failed', { error });
 		
 		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 		return c.json(
@@ -184,10 +185,10 @@ DebugRoute.get('/auth/test', async (c) => {
 DebugRoute.get('/account/:accountId', async (c) => {
 	try {
 		const accountId = c.req.param('accountId');
-		console.log(`Checking account credentials for: ${accountId}`);
+		c.get('logger').info('Checking account credentials', { account: accountId });
 		
 		// Load account credentials from KV
-		const credentials = await c.env.QWEN_TOKEN_CACHE.get(`ACCOUNT:${accountId}`, 'json') as Partial<import('../types').OAuth2Credentials> | null;
+		const credentials = await createCredentialVault(c.env).load(accountId);
 		
 		if (!credentials) {
 			return c.json({
@@ -218,7 +219,7 @@ DebugRoute.get('/account/:accountId', async (c) => {
 				}
 		});
 	} catch (error) {
-		console.error('Error checking account credentials:', error);
+		c.get('logger').error('Error checking account credentials', { error });
 		
 		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 		return c.json(
@@ -0,0 +1,143 @@
+import { Hono } from 'hono';
+import { Env } from '../types';
+import { ApiKeyRecord, ApiKeyStore, ApiKeyUsageStore, NewApiKey, createApiKeyUsageStore } from '../api-keys';
+import { API_KEY_ROTATION_GRACE_SECONDS, API_KEY_MAX_ROTATION_GRACE_SECONDS } from '../config';
+
+/**
+ * Admin routes for client API keys (mounted under /admin/keys, behind admin auth).
+ * Secrets are returned once, when a key is created or rotated; only their hashes are stored.
+ */
+export const KeysRoute = new Hono<{ Bindings: Env }>();
+
+/**
+ * Check a create-key payload; returns the key fields or an error message
+ */
+function parseNewKey(body: unknown): NewApiKey | string {
+	if (!body || typeof body !== 'object' || Array.isArray(body)) {
+		return 'Body must be a JSON object';
+	}
+
+	const fields = body as Record<string, unknown>;
+	if (typeof fields.name !== 'string' || !fields.name.trim() || fields.name.length > 64) {
+		return 'name is required (max 64 characters)';
+	}
+
+	const models = fields.models ?? null;
+	if (models !== null && (!Array.isArray(models) || models.length === 0 || models.some(model => typeof model !== 'string'))) {
+		return 'models must be a non-empty array of model IDs, or null for all models';
+	}
+
+	const limits: Pick<NewApiKey, 'requestsPerMinute' | 'dailyRequestLimit' | 'dailyTokenLimit'> = {
+		requestsPerMinute: null,
+		dailyRequestLimit: null,
+		dailyTokenLimit: null
+	};
+	for (const field of ['requestsPerMinute', 'dailyRequestLimit', 'dailyTokenLimit'] as const) {
+		const value = fields[field] ?? null;
+		if (value !== null && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+			return `${field} must be a positive integer, or null for no limit`;
+		}
+		limits[field] = value;
+	}
+
+	return { name: fields.name.trim(), models: models as string[] | null, ...limits };
+}
+
+/**
+ * A key as shown to admins: its record, pending rotation, last use and usage today
+ */
+async function describeKey(record: ApiKeyRecord, previousKeyExpiresAt: number | null, usageStore: ApiKeyUsageStore) {
+	const [lastUsedAt, usageToday] = await Promise.all([
+		usageStore.getLastUsed(record.id),
+		usageStore.getUsage(record.id, new Date().toISOString().split('T')[0])
+	]);
+
+	return {
+		id: record.id,
+		name: record.name,
+		keyHint: record.keyHint ? `...${record.keyHint}` : null,
+		models: record.models,
+		requestsPerMinute: record.requestsPerMinute,
+		dailyRequestLimit: record.dailyRequestLimit,
+		dailyTokenLimit: record.dailyTokenLimit,
+		createdAt: new Date(record.createdAt).toISOString(),
+		previousKeyExpiresAt: previousKeyExpiresAt ? new Date(previousKeyExpiresAt).toISOString() : null,
+		lastUsedAt: lastUsedAt ? new Date(lastUsedAt).toISOString() : null,
+		usageToday
+	};
+}
+
+// List keys with last use and usage today
+KeysRoute.get('/', async (c) => {
+	const usageStore = createApiKeyUsageStore(c.env);
+	const stored = await new ApiKeyStore(c.env.QWEN_TOKEN_CACHE).list();
+	const keys = await Promise.all(stored.map(key => describeKey(key.record, key.previousKeyExpiresAt, usageStore)));
+
+	return c.json({
+		total: keys.length,
+		keys: keys.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+	});
+});
+
+// Get one key
+KeysRoute.get('/:keyId', async (c) => {
+	const keyId = c.req.param('keyId');
+	const key = (await new ApiKeyStore(c.env.QWEN_TOKEN_CACHE).list()).find(stored => stored.record.id === keyId);
+
+	if (!key) {
+		return c.json({ error: `API key '${keyId}' not found` }, 404);
+	}
+	return c.json(await describeKey(key.record, key.previousKeyExpiresAt, createApiKeyUsageStore(c.env)));
+});
+
+// Create a key ({ name, models?, requestsPerMinute?, dailyRequestLimit?, dailyTokenLimit? }); the secret is only returned here
+KeysRoute.post('/', async (c) => {
+	const fields = parseNewKey(await c.req.json().catch(() => null));
+	if (typeof fields === 'string') {
+		return c.json({ error: fields }, 400);
+	}
+
+	const { apiKey, record } = await new ApiKeyStore(c.env.QWEN_TOKEN_CACHE).create(fields);
+	c.get('logger').info('Created API key', { key_id: record.id, name: record.name });
+
+	return c.json(
+		{
+			key: apiKey,
+			...(await describeKey(record, null, createApiKeyUsageStore(c.env)))
+		},
+		201
+	);
+});
+
+// Issue a new secret; the old one keeps working for graceSeconds ({ graceSeconds? }, default 24 hours, 0 to end it now)
+KeysRoute.post('/:keyId/rotate', async (c) => {
+	const keyId = c.req.param('keyId');
+	const body = await c.req.json().catch(() => ({})) as { graceSeconds?: unknown } | null;
+	const graceSeconds = body?.graceSeconds ?? API_KEY_ROTATION_GRACE_SECONDS;
+	if (typeof graceSeconds !== 'number' || !Number.isInteger(graceSeconds) || graceSeconds < 0 || graceSeconds > API_KEY_MAX_ROTATION_GRACE_SECONDS) {
+		return c.json({ error: `graceSeconds must be an integer between 0 and ${API_KEY_MAX_ROTATION_GRACE_SECONDS}` }, 400);
+	}
+
+	const rotation = await new ApiKeyStore(c.env.QWEN_TOKEN_CACHE).rotate(keyId, graceSeconds);
+	if (!rotation) {
+		return c.json({ error: `API key '${keyId}' not found` }, 404);
+	}
+	c.get('logger').info('Rotated API key', { key_id: keyId, grace_seconds: graceSeconds });
+
+	return c.json({
+		key: rotation.apiKey,
+		...(await describeKey(rotation.record, rotation.previousKeyExpiresAt, createApiKeyUsageStore(c.env)))
+	});
+});
+
+// Revoke a key and all of its secrets, including ones in a rotation grace period
+KeysRoute.delete('/:keyId', async (c) => {
+	const keyId = c.req.param('keyId');
+	if (!(await new ApiKeyStore(c.env.QWEN_TOKEN_CACHE).revoke(keyId))) {
+		return c.json({ error: `API key '${keyId}' not found` }, 404);
+	}
+
+	await createApiKeyUsageStore(c.env).revoke(keyId);
+	c.get('logger').info('Revoked API key', { key_id: keyId });
+	return c.json({ id: keyId, revoked: true });
+});
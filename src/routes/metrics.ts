@@ -0,0 +1,28 @@
+import { Hono } from 'hono';
+import { Env } from '../types';
+import type { HealthSnapshot } from '../scheduled';
+import { accountGauges, createMetricsStore, flushMetrics, renderMetrics } from '../metrics';
+import { KV_HEALTH_SNAPSHOT_KEY } from '../config';
+
+/**
+ * Prometheus scrape endpoint (mounted at /metrics, behind admin auth)
+ */
+export const MetricsRoute = new Hono<{ Bindings: Env }>();
+
+// Counters and histograms from every isolate plus pool gauges from the latest snapshot; OpenMetrics when the scraper asks for it
+MetricsRoute.get('/', async (c) => {
+	await flushMetrics(c.env, c.get('logger'), true);
+
+	const [stored, snapshot] = await Promise.all([
+		createMetricsStore(c.env).getAll(),
+		c.env.QWEN_TOKEN_CACHE.get<HealthSnapshot>(KV_HEALTH_SNAPSHOT_KEY, 'json')
+	]);
+	const gauges = snapshot ? accountGauges(snapshot.accounts, Date.parse(snapshot.timestamp)) : {};
+
+	const openMetrics = (c.req.header('Accept') || '').includes('application/openmetrics-text');
+	return c.body(renderMetrics({ ...stored, ...gauges }, openMetrics), 200, {
+		'Content-Type': openMetrics
+			? 'application/openmetrics-text; version=1.0.0; charset=utf-8'
+			: 'text/plain; version=0.0.4; charset=utf-8'
+	});
+});
@@ -0,0 +1,159 @@
+import { Hono } from 'hono';
+import { Env, ChatCompletionRequest, ChatCompletionResponse, OllamaChatRequest, OllamaGenerateRequest } from '../types';
+import { QwenAPIClient, ChatCompletionOptions, requestOptions } from '../qwen-client';
+import { validateChatParameters } from '../request-params';
+import { createLogger } from '../logger';
+import {
+	OllamaEndpoint,
+	isOllamaLoadRequest,
+	chatResponseToOllama,
+	chatStreamToOllama,
+	modelsToOllamaTags,
+	normalizeOllamaModel,
+	ollamaChatToChatRequest,
+	ollamaGenerateToChatRequest
+} from '../adapters/ollama';
+
+/**
+ * Ollama-compatible API routes (/api/chat, /api/generate, /api/tags) backed by the Qwen account pool.
+ */
+export const OllamaRoute = new Hono<{ Bindings: Env }>();
+
+// Reported to clients that check the server version before connecting
+const OLLAMA_COMPAT_VERSION = '0.6.0';
+
+/**
+ * Run a converted request and answer in Ollama's JSON or NDJSON format
+ */
+async function runOllamaRequest(env: Env, chatRequest: ChatCompletionRequest, endpoint: OllamaEndpoint, options: ChatCompletionOptions): Promise<Response> {
+	const startedAt = Date.now();
+	const model = chatRequest.model;
+
+	const validation = validateChatParameters(chatRequest);
+	if (validation.error) {
+		return Response.json({ error: validation.error.message }, { status: 400 });
+	}
+
+	const qwenClient = new QwenAPIClient(env);
+	const result = await qwenClient.chatCompletions(chatRequest, options);
+
+	if (result instanceof ReadableStream) {
+		return new Response(chatStreamToOllama(result, model, endpoint, startedAt, options.logger ?? createLogger(env)), {
+			headers: {
+				'Content-Type': 'application/x-ndjson',
+				'Cache-Control': 'no-cache',
+				'Access-Control-Allow-Origin': '*'
+			}
+		});
+	}
+
+	return Response.json(chatResponseToOllama(result as ChatCompletionResponse, model, endpoint, startedAt));
+}
+
+/**
+ * Map errors onto Ollama's { error } response shape
+ */
+function ollamaErrorResponse(error: unknown): Response {
+	const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+	if (errorMessage.includes('Authentication failed') || errorMessage.includes('access token')) {
+		return Response.json({ error: 'Authentication failed with Qwen. Please check your OAuth credentials.' }, { status: 401 });
+	}
+
+	if (errorMessage.includes('quota') || errorMessage.includes('rate limit') || errorMessage.includes('429')) {
+		return Response.json({ error: 'Quota exceeded or rate limited. Please try again later.' }, { status: 429 });
+	}
+
+	if (errorMessage.includes('timed out')) {
+		return Response.json({ error: errorMessage }, { status: 504 });
+	}
+
+	return Response.json({ error: errorMessage }, { status: 500 });
+}
+
+// Chat endpoint
+OllamaRoute.post('/chat', async (c) => {
+	try {
+		const body = await c.req.json<OllamaChatRequest>();
+		c.get('logger').info('Ollama chat request', { model: body.model, stream: body.stream !== false, message_count: body.messages?.length || 0 });
+
+		if (isOllamaLoadRequest('chat', body)) {
+			return c.json({
+				model: normalizeOllamaModel(body.model),
+				created_at: new Date().toISOString(),
+				message: { role: 'assistant', content: '' },
+				done_reason: 'load',
+				done: true
+			});
+		}
+
+		return await runOllamaRequest(c.env, ollamaChatToChatRequest(body), 'chat', requestOptions(c));
+	} catch (error) {
+		c.get('logger').error('Error in Ollama chat', { error });
+		return ollamaErrorResponse(error);
+	}
+});
+
+// Generate endpoint
+OllamaRoute.post('/generate', async (c) => {
+	try {
+		const body = await c.req.json<OllamaGenerateRequest>();
+		c.get('logger').info('Ollama generate request', { model: body.model, stream: body.stream !== false });
+
+		if (isOllamaLoadRequest('generate', body)) {
+			return c.json({
+				model: normalizeOllamaModel(body.model),
+				created_at: new Date().toISOString(),
+				response: '',
+				done_reason: 'load',
+				done: true
+			});
+		}
+
+		return await runOllamaRequest(c.env, ollamaGenerateToChatRequest(body), 'generate', requestOptions(c));
+	} catch (error) {
+		c.get('logger').error('Error in Ollama generate', { error });
+		return ollamaErrorResponse(error);
+	}
+});
+
+// List models
+OllamaRoute.get('/tags', async (c) => {
+	try {
+		const qwenClient = new QwenAPIClient(c.env);
+		const models = await qwenClient.listModels();
+
+		return c.json(modelsToOllamaTags(models));
+	} catch (error) {
+		c.get('logger').error('Error listing Ollama models', { error });
+		return ollamaErrorResponse(error);
+	}
+});
+
+// Show model details
+OllamaRoute.post('/show', async (c) => {
+	const body = await c.req.json<{ model?: string; name?: string }>().catch(() => ({} as { model?: string; name?: string }));
+	const modelId = normalizeOllamaModel(body.model || body.name);
+
+	const qwenClient = new QwenAPIClient(c.env);
+	const models = await qwenClient.listModels();
+	const model = models.data.find(m => m.id === modelId);
+
+	if (!model) {
+		return c.json({ error: `model '${modelId}' not found` }, 404);
+	}
+
+	return c.json({
+		modelfile: '',
+		parameters: '',
+		template: '',
+		details: { format: 'api', family: model.owned_by, families: [model.owned_by], parameter_size: '', quantization_level: '' },
+		model_info: {},
+		capabilities: ['completion', 'tools', ...(model.id === 'vision-model' ? ['vision'] : [])]
+	});
+});
+
+// Server version
+OllamaRoute.get('/version', (c) => {
+	return c.json({ version: OLLAMA_COMPAT_VERSION });
+});
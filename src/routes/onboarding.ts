@@ -0,0 +1,292 @@
+import { Hono } from 'hono';
+import { Env } from '../types';
+import { MultiAccountAuthManager } from '../multi-auth';
+import { startDeviceAuthorization, pollDeviceToken } from '../device-flow';
+import { renderQRCodeSVG } from '../qrcode';
+import { ACCOUNT_ID_PATTERN, KV_ONBOARDING_PREFIX, DEVICE_FLOW_SLOW_DOWN_SECONDS } from '../config';
+
+/**
+ * Device-flow onboarding that adds a new account to the pool (mounted under /admin/onboarding, behind admin auth).
+ * The PKCE verifier and device code stay in KV; the browser only ever sees the session ID and user code.
+ */
+export const OnboardingRoute = new Hono<{ Bindings: Env }>();
+
+interface OnboardingSession {
+	accountId: string;
+	deviceCode: string;
+	codeVerifier: string;
+	interval: number; // Seconds between token polls
+	expiresAt: number;
+	nextPollAt: number;
+}
+
+async function getSession(env: Env, sessionId: string): Promise<OnboardingSession | null> {
+	return await env.QWEN_TOKEN_CACHE.get(`${KV_ONBOARDING_PREFIX}${sessionId}`, 'json') as OnboardingSession | null;
+}
+
+async function saveSession(env: Env, sessionId: string, session: OnboardingSession): Promise<void> {
+	// KV rejects TTLs under 60 seconds
+	const ttl = Math.max(60, Math.ceil((session.expiresAt - Date.now()) / 1000));
+	await env.QWEN_TOKEN_CACHE.put(`${KV_ONBOARDING_PREFIX}${sessionId}`, JSON.stringify(session), { expirationTtl: ttl });
+}
+
+async function deleteSession(env: Env, sessionId: string): Promise<void> {
+	await env.QWEN_TOKEN_CACHE.delete(`${KV_ONBOARDING_PREFIX}${sessionId}`);
+}
+
+// Start device authorization for a new account ({ account_id, overwrite? })
+OnboardingRoute.post('/', async (c) => {
+	const body = await c.req.json().catch(() => null) as { account_id?: unknown; overwrite?: unknown } | null;
+	const accountId = body?.account_id;
+	if (typeof accountId !== 'string' || !ACCOUNT_ID_PATTERN.test(accountId)) {
+		return c.json({ error: 'account_id may only contain letters, digits, ".", "_" and "-" (max 64 characters)' }, 400);
+	}
+
+	const authManager = new MultiAccountAuthManager(c.env, c.get('logger'));
+	if ((await authManager.getAllAccountIds()).includes(accountId) && body?.overwrite !== true) {
+		return c.json({ error: `Account '${accountId}' already exists. Set overwrite to true to re-authenticate it.` }, 409);
+	}
+
+	let authorization;
+	try {
+		authorization = await startDeviceAuthorization();
+	} catch (error) {
+		c.get('logger').error('Failed to start device authorization', { account: accountId, error });
+		return c.json({ error: error instanceof Error ? error.message : 'Failed to start device authorization' }, 502);
+	}
+
+	const { deviceCode, codeVerifier } = authorization;
+	const sessionId = crypto.randomUUID();
+	const interval = deviceCode.interval || 5;
+	await saveSession(c.env, sessionId, {
+		accountId,
+		deviceCode: deviceCode.device_code,
+		codeVerifier,
+		interval,
+		expiresAt: Date.now() + deviceCode.expires_in * 1000,
+		nextPollAt: Date.now() + interval * 1000
+	});
+
+	c.get('logger').info('Started onboarding session', { account: accountId });
+
+	const verificationUrl = deviceCode.verification_uri_complete || deviceCode.verification_uri;
+	return c.json(
+		{
+			session_id: sessionId,
+			account: accountId,
+			user_code: deviceCode.user_code,
+			verification_uri: deviceCode.verification_uri,
+			verification_uri_complete: deviceCode.verification_uri_complete,
+			expires_in: deviceCode.expires_in,
+			interval,
+			qr_svg: renderQRCodeSVG(verificationUrl)
+		},
+		201
+	);
+});
+
+// Check once whether the user has approved; saves the account when they have
+OnboardingRoute.post('/:sessionId/poll', async (c) => {
+	const sessionId = c.req.param('sessionId');
+	const session = await getSession(c.env, sessionId);
+	if (!session || session.expiresAt <= Date.now()) {
+		return c.json({ status: 'expired', error: 'Onboarding session not found or expired. Start a new one.' }, 404);
+	}
+
+	// Polling faster than the interval earns a slow_down from the token endpoint
+	if (Date.now() < session.nextPollAt) {
+		return c.json({ status: 'pending', interval: session.interval });
+	}
+
+	let result;
+	try {
+		result = await pollDeviceToken(session.deviceCode, session.codeVerifier);
+	} catch (error) {
+		// e.g. the token endpoint can't be reached; the session stays valid for another poll
+		c.get('logger').error('Onboarding poll failed', { account: session.accountId, error });
+		return c.json({ status: 'error', error: error instanceof Error ? error.message : 'Failed to poll for the device token' }, 502);
+	}
+
+	switch (result.status) {
+		case 'pending':
+		case 'slow_down': {
+			const interval = result.status === 'slow_down' ? session.interval + DEVICE_FLOW_SLOW_DOWN_SECONDS : session.interval;
+			await saveSession(c.env, sessionId, { ...session, interval, nextPollAt: Date.now() + interval * 1000 });
+			return c.json({ status: 'pending', interval });
+		}
+		case 'complete': {
+			const authManager = new MultiAccountAuthManager(c.env, c.get('logger'));
+			await authManager.saveAccount(session.accountId, result.credentials);
+			await deleteSession(c.env, sessionId);
+			c.get('logger').info('Onboarding complete', { account: session.accountId });
+			return c.json({
+				status: 'complete',
+				account: session.accountId,
+				expiresAt: new Date(result.credentials.expiry_date).toISOString()
+			});
+		}
+		case 'expired':
+		case 'denied':
+			await deleteSession(c.env, sessionId);
+			c.get('logger').info('Onboarding ended', { account: session.accountId, status: result.status });
+			return c.json({ status: result.status, account: session.accountId });
+		case 'error':
+			c.get('logger').error('Onboarding poll failed', { account: session.accountId, error: result.error });
+			return c.json({ status: 'error', error: result.error }, 502);
+	}
+});
+
+// Abandon an onboarding session
+OnboardingRoute.delete('/:sessionId', async (c) => {
+	const sessionId = c.req.param('sessionId');
+	if (!(await getSession(c.env, sessionId))) {
+		return c.json({ error: 'Onboarding session not found or expired' }, 404);
+	}
+
+	await deleteSession(c.env, sessionId);
+	return c.json({ session_id: sessionId, deleted: true });
+});
+
+const ONBOARDING_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Add Qwen Account</title>
+<style>
+	body { font-family: system-ui, sans-serif; max-width: 32rem; margin: 2rem auto; padding: 0 1rem; color: #222; }
+	label { display: block; margin-top: 1rem; font-weight: 600; }
+	input[type=text], input[type=password] { width: 100%; padding: .5rem; box-sizing: border-box; }
+	button { margin-top: 1rem; padding: .5rem 1rem; }
+	#qr svg { width: 16rem; height: 16rem; display: block; margin: 1rem 0; }
+	.code { font-family: monospace; font-size: 1.5rem; letter-spacing: .1em; }
+	.error { color: #b00020; }
+	.hidden { display: none; }
+</style>
+</head>
+<body>
+<h1>Add Qwen Account</h1>
+
+<form id="start">
+	<label for="admin-key">Admin key</label>
+	<input id="admin-key" type="password" autocomplete="off" required>
+	<label for="account-id">Account ID</label>
+	<input id="account-id" type="text" pattern="[A-Za-z0-9_.\\-]{1,64}" required>
+	<label><input id="overwrite" type="checkbox"> Replace an existing account with this ID</label>
+	<button type="submit">Start</button>
+</form>
+
+<section id="pending" class="hidden">
+	<p>Open the link below (or scan the QR code), sign in to Qwen and approve the request.</p>
+	<p><a id="link" target="_blank" rel="noopener noreferrer"></a></p>
+	<p>Code: <span id="user-code" class="code"></span></p>
+	<div id="qr"></div>
+	<button id="cancel" type="button">Cancel</button>
+</section>
+
+<p id="status"></p>
+
+<script>
+(function () {
+	var sessionId = null;
+	var adminKey = '';
+	var timer = null;
+	var statusEl = document.getElementById('status');
+
+	function setStatus(text, isError) {
+		statusEl.textContent = text;
+		statusEl.className = isError ? 'error' : '';
+	}
+
+	function api(method, path, body) {
+		return fetch('/admin/onboarding' + path, {
+			method: method,
+			headers: { 'Authorization': 'Bearer ' + adminKey, 'Content-Type': 'application/json' },
+			body: body ? JSON.stringify(body) : undefined
+		}).then(function (res) {
+			return res.json().then(function (data) { return { status: res.status, data: data }; });
+		});
+	}
+
+	function finish(text, isError) {
+		clearTimeout(timer);
+		sessionId = null;
+		document.getElementById('pending').classList.add('hidden');
+		document.getElementById('start').classList.remove('hidden');
+		setStatus(text, isError);
+	}
+
+	function poll(interval) {
+		timer = setTimeout(function () {
+			api('POST', '/' + sessionId + '/poll').then(function (res) {
+				var data = res.data;
+				if (data.status === 'pending') {
+					poll(data.interval);
+				} else if (data.status === 'complete') {
+					finish('Account ' + data.account + ' added to the pool.', false);
+				} else if (data.status === 'denied') {
+					finish('Authorization was denied.', true);
+				} else if (data.status === 'expired') {
+					finish('The code expired before it was approved. Start again.', true);
+				} else {
+					setStatus((data.error || 'Polling failed') + ' (retrying)', true);
+					poll(interval);
+				}
+			}).catch(function () {
+				setStatus('Network error (retrying)', true);
+				poll(interval);
+			});
+		}, interval * 1000);
+	}
+
+	document.getElementById('start').addEventListener('submit', function (event) {
+		event.preventDefault();
+		adminKey = document.getElementById('admin-key').value;
+		setStatus('Starting...', false);
+		api('POST', '', {
+			account_id: document.getElementById('account-id').value,
+			overwrite: document.getElementById('overwrite').checked
+		}).then(function (res) {
+			if (res.status !== 201) {
+				setStatus(res.data.error || 'Failed to start onboarding', true);
+				return;
+			}
+			var data = res.data;
+			sessionId = data.session_id;
+			var link = document.getElementById('link');
+			link.href = data.verification_uri_complete || data.verification_uri;
+			link.textContent = link.href;
+			document.getElementById('user-code').textContent = data.user_code;
+			document.getElementById('qr').innerHTML = data.qr_svg; // Generated by the worker, not user input
+			document.getElementById('start').classList.add('hidden');
+			document.getElementById('pending').classList.remove('hidden');
+			setStatus('Waiting for approval...', false);
+			poll(data.interval);
+		}).catch(function () {
+			setStatus('Network error', true);
+		});
+	});
+
+	document.getElementById('cancel').addEventListener('click', function () {
+		if (sessionId) {
+			api('DELETE', '/' + sessionId);
+		}
+		finish('Cancelled.', false);
+	});
+})();
+</script>
+</body>
+</html>
+`;
+
+/**
+ * Static page driving the onboarding API from a browser.
+ * It holds no secrets: the admin key is entered by the user and only sent as a Bearer header.
+ */
+export const OnboardingPageRoute = new Hono<{ Bindings: Env }>();
+
+OnboardingPageRoute.get('/', (c) => {
+	c.header('Cache-Control', 'no-store');
+	c.header('Referrer-Policy', 'no-referrer');
+	return c.html(ONBOARDING_PAGE);
+});
@@ -1,24 +1,23 @@
 import { Hono } from 'hono';
-import { Env, ChatCompletionRequest } from '../types';
-import { QwenAPIClient } from '../qwen-client';
+import { Env, ChatCompletionRequest, ChatCompletionResponse, CompletionRequest } from '../types';
+import { QwenAPIClient, requestOptions } from '../qwen-client';
+import { validateChatParameters } from '../request-params';
+import { completionToChatRequest, chatResponsesToCompletion, chatStreamToCompletion } from '../adapters/completions';
 
 /**
- * OpenAI-compatible API routes for chat completions and models.
+ * OpenAI-compatible API routes for chat completions, legacy completions and models.
  */
 export const OpenAIRoute = new Hono<{ Bindings: Env }>();
 
 // List available models
 OpenAIRoute.get('/models', async (c) => {
 	try {
-		console.log('Models request received');
-		
 		const qwenClient = new QwenAPIClient(c.env);
 		const models = await qwenClient.listModels();
 		
-		console.log('Models request processed successfully');
 		return c.json(models);
 	} catch (error) {
-		console.error('Error fetching models:', error);
+		c.get('logger').error('Error fetching models', { error });
 		
 		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 		return c.json(
@@ -36,15 +35,13 @@ OpenAIRoute.get('/models', async (c) => {
 // Chat completions endpoint
 OpenAIRoute.post('/chat/completions', async (c) => {
 	try {
-		console.log('Chat completions request received');
-		
 		const body = await c.req.json<ChatCompletionRequest>();
 		const { model, stream = false } = body;
 
-		console.log('Request details:', {
+		c.get('logger').info('Chat completions request', {
 			model,
 			stream,
-			messageCount: body.messages?.length || 0
+			message_count: body.messages?.length || 0
 		});
 
 		if (!body.messages || !Array.isArray(body.messages) || body.messages.length === 0) {
@@ -59,18 +56,33 @@ OpenAIRoute.post('/chat/completions', async (c) => {
 			);
 		}
 
+		// Validate sampling/control parameters and report the ones Qwen rejects
+		const validation = validateChatParameters(body);
+		if (validation.error) {
+			return c.json(
+				{
+					error: {
+						message: validation.error.message,
+						type: 'invalid_request_error',
+						param: validation.error.param
+					}
+				},
+				400
+			);
+		}
+		if (validation.unsupported.length > 0) {
+			c.get('logger').info('Dropping parameters unsupported by Qwen', { params: validation.unsupported });
+			c.header('X-Unsupported-Params', validation.unsupported.join(','));
+		}
+
 		// Initialize Qwen client
 		const qwenClient = new QwenAPIClient(c.env);
 
 		if (stream) {
 			// Streaming response
-			console.log('Starting streaming chat completion');
-			
-			const streamResponse = await qwenClient.chatCompletions(body);
+			const streamResponse = await qwenClient.chatCompletions(body, requestOptions(c));
 			
 			if (streamResponse instanceof ReadableStream) {
-				console.log('Streaming response initiated');
-				
 				return new Response(streamResponse, {
 					headers: {
 						'Content-Type': 'text/event-stream',
@@ -78,25 +90,23 @@ OpenAIRoute.post('/chat/completions', async (c) => {
 						'Connection': 'keep-alive',
 						'Access-Control-Allow-Origin': '*',
 						'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-						'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+						'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+						...(validation.unsupported.length > 0 && { 'X-Unsupported-Params': validation.unsupported.join(',') })
 					}
 				});
 			} else {
 				// Fallback to non-streaming if streaming failed
-				console.log('Streaming failed, falling back to non-streaming');
+				c.get('logger').warn('Streaming failed, falling back to non-streaming');
 				return c.json(streamResponse);
 			}
 		} else {
 			// Non-streaming response
-			console.log('Starting non-streaming chat completion');
+			const completion = await qwenClient.chatCompletions(body, requestOptions(c));
 			
-			const completion = await qwenClient.chatCompletions(body);
-			
-			console.log('Non-streaming completion processed successfully');
 			return c.json(completion);
 		}
 	} catch (error) {
-		console.error('Error in chat completions:', error);
+		c.get('logger').error('Error in chat completions', { error });
 		
 		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 		
@@ -125,6 +135,18 @@ OpenAIRoute.post('/chat/completions', async (c) => {
 				429
 			);
 		}
+
+		if (errorMessage.includes('timed out')) {
+			return c.json(
+				{
+					error: {
+						message: errorMessage,
+						type: 'timeout_error'
+					}
+				},
+				504
+			);
+		}
 		
 		// Generic error
 		return c.json(
@@ -138,3 +160,138 @@ OpenAIRoute.post('/chat/completions', async (c) => {
 		);
 	}
 });
+
+// Legacy text completions endpoint, mapped onto chat completions
+OpenAIRoute.post('/completions', async (c) => {
+	try {
+		const body = await c.req.json<CompletionRequest>();
+		const prompts = typeof body.prompt === 'string' ? [body.prompt] : body.prompt;
+
+		c.get('logger').info('Completions request', {
+			model: body.model,
+			stream: !!body.stream,
+			prompt_count: prompts?.length || 0,
+			fill_in_the_middle: !!body.suffix
+		});
+
+		if (!Array.isArray(prompts) || prompts.length === 0 || prompts.some(prompt => typeof prompt !== 'string')) {
+			return c.json(
+				{
+					error: {
+						message: 'prompt is a required field and must be a string or an array of strings',
+						type: 'invalid_request_error',
+						param: 'prompt'
+					}
+				},
+				400
+			);
+		}
+
+		if (body.stream && prompts.length > 1) {
+			return c.json(
+				{
+					error: {
+						message: 'Streaming is only supported for a single prompt',
+						type: 'invalid_request_error',
+						param: 'prompt'
+					}
+				},
+				400
+			);
+		}
+
+		const chatRequests = prompts.map(prompt => completionToChatRequest(body, prompt));
+		const validation = validateChatParameters(chatRequests[0]);
+		if (validation.error) {
+			return c.json(
+				{
+					error: {
+						message: validation.error.message,
+						type: 'invalid_request_error',
+						param: validation.error.param
+					}
+				},
+				400
+			);
+		}
+
+		const qwenClient = new QwenAPIClient(c.env);
+
+		if (body.stream) {
+			const streamResponse = await qwenClient.chatCompletions(chatRequests[0], requestOptions(c));
+
+			if (streamResponse instanceof ReadableStream) {
+				return new Response(chatStreamToCompletion(streamResponse, body, prompts[0], c.get('logger')), {
+					headers: {
+						'Content-Type': 'text/event-stream',
+						'Cache-Control': 'no-cache',
+						'Connection': 'keep-alive',
+						'Access-Control-Allow-Origin': '*',
+						'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+						'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+					}
+				});
+			}
+
+			return c.json(chatResponsesToCompletion([streamResponse], prompts, body));
+		}
+
+		// One upstream call per prompt, in order
+		const completions: ChatCompletionResponse[] = [];
+		for (const chatRequest of chatRequests) {
+			completions.push(await qwenClient.chatCompletions(chatRequest, requestOptions(c)) as ChatCompletionResponse);
+		}
+
+		return c.json(chatResponsesToCompletion(completions, prompts, body));
+	} catch (error) {
+		c.get('logger').error('Error in completions', { error });
+
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+		if (errorMessage.includes('Authentication failed') || errorMessage.includes('access token')) {
+			return c.json(
+				{
+					error: {
+						message: 'Authentication failed with Qwen. Please check your OAuth credentials.',
+						type: 'authentication_error'
+					}
+				},
+				401
+			);
+		}
+
+		if (errorMessage.includes('quota') || errorMessage.includes('rate limit') || errorMessage.includes('429')) {
+			return c.json(
+				{
+					error: {
+						message: 'Quota exceeded or rate limited. Please try again later.',
+						type: 'rate_limit_error'
+					}
+				},
+				429
+			);
+		}
+
+		if (errorMessage.includes('timed out')) {
+			return c.json(
+				{
+					error: {
+						message: errorMessage,
+						type: 'timeout_error'
+					}
+				},
+				504
+			);
+		}
+
+		return c.json(
+			{
+				error: {
+					message: errorMessage,
+					type: 'internal_server_error'
+				}
+			},
+			500
+		);
+	}
+});
@@ -0,0 +1,240 @@
+import { Hono } from 'hono';
+import { Env, ChatCompletionResponse, ChatMessage, ResponseObject, ResponsesRequest, StoredResponse } from '../types';
+import { QwenAPIClient, requestOptions } from '../qwen-client';
+import { validateChatParameters } from '../request-params';
+import { KV_RESPONSE_PREFIX, RESPONSE_STORE_TTL } from '../config';
+import type { Logger } from '../logger';
+import {
+	chatResponseToResponses,
+	chatStreamToResponses,
+	createResponseObject,
+	inputToChatMessages,
+	responsesToChatRequest,
+	validateResponsesInput
+} from '../adapters/responses';
+
+/**
+ * OpenAI Responses API compatible routes.
+ * Responses are stored in KV so conversations can be continued via previous_response_id.
+ */
+export const ResponsesRoute = new Hono<{ Bindings: Env }>();
+
+/**
+ * Load a stored response from KV. Responses created with another API key are treated as missing.
+ */
+async function loadStoredResponse(env: Env, responseId: string, apiKeyId: string | null): Promise<StoredResponse | null> {
+	const stored = await env.QWEN_TOKEN_CACHE.get(`${KV_RESPONSE_PREFIX}${responseId}`, 'json') as StoredResponse | null;
+	return stored && (stored.apiKeyId ?? null) === apiKeyId ? stored : null;
+}
+
+/**
+ * Store a finished response together with its full conversation history and the API key that created it
+ */
+async function saveStoredResponse(env: Env, response: ResponseObject, messages: ChatMessage[], apiKeyId: string | null, logger: Logger): Promise<void> {
+	try {
+		const stored: StoredResponse = { response, messages, apiKeyId };
+		await env.QWEN_TOKEN_CACHE.put(`${KV_RESPONSE_PREFIX}${response.id}`, JSON.stringify(stored), {
+			expirationTtl: RESPONSE_STORE_TTL
+		});
+	} catch (error) {
+		// Don't fail the request, the response just can't be continued later
+		logger.error('Failed to store response', { response_id: response.id, error });
+	}
+}
+
+// Create a response
+ResponsesRoute.post('/responses', async (c) => {
+	try {
+		const body = await c.req.json<ResponsesRequest>();
+
+		c.get('logger').info('Responses request', {
+			model: body.model,
+			stream: !!body.stream,
+			previous_response_id: body.previous_response_id
+		});
+
+		if (body.input === undefined || body.input === null || (Array.isArray(body.input) && body.input.length === 0)) {
+			return c.json(
+				{
+					error: {
+						message: 'input is a required field',
+						type: 'invalid_request_error',
+						param: 'input'
+					}
+				},
+				400
+			);
+		}
+
+		const inputError = validateResponsesInput(body.input);
+		if (inputError) {
+			return c.json(
+				{
+					error: {
+						message: inputError,
+						type: 'invalid_request_error',
+						param: 'input'
+					}
+				},
+				400
+			);
+		}
+
+		let history: ChatMessage[] = [];
+		if (body.previous_response_id) {
+			const previous = await loadStoredResponse(c.env, body.previous_response_id, c.get('apiKey')?.id ?? null);
+			if (!previous) {
+				return c.json(
+					{
+						error: {
+							message: `Previous response with id '${body.previous_response_id}' not found.`,
+							type: 'invalid_request_error',
+							param: 'previous_response_id'
+						}
+					},
+					404
+				);
+			}
+			history = previous.messages;
+		}
+
+		const chatRequest = responsesToChatRequest(body, history, c.get('logger'));
+		const validation = validateChatParameters(chatRequest);
+		if (validation.error) {
+			return c.json(
+				{
+					error: {
+						message: validation.error.message,
+						type: 'invalid_request_error',
+						param: validation.error.param
+					}
+				},
+				400
+			);
+		}
+
+		// Conversation to store: prior history plus this turn's input (instructions excluded)
+		const conversation = [...history, ...inputToChatMessages(body.input)];
+		const shouldStore = body.store !== false;
+		const initial = createResponseObject(body);
+
+		const qwenClient = new QwenAPIClient(c.env);
+		const result = await qwenClient.chatCompletions(chatRequest, requestOptions(c));
+
+		if (result instanceof ReadableStream) {
+			const stream = chatStreamToResponses(result, initial, async (response, message) => {
+				if (shouldStore) {
+					await saveStoredResponse(c.env, response, [...conversation, message], c.get('apiKey')?.id ?? null, c.get('logger'));
+				}
+			}, c.get('logger'));
+
+			return new Response(stream, {
+				headers: {
+					'Content-Type': 'text/event-stream',
+					'Cache-Control': 'no-cache',
+					'Connection': 'keep-alive',
+					'Access-Control-Allow-Origin': '*',
+					'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+					'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+				}
+			});
+		}
+
+		const { response, message } = chatResponseToResponses(result as ChatCompletionResponse, initial);
+		if (shouldStore) {
+			await saveStoredResponse(c.env, response, [...conversation, message], c.get('apiKey')?.id ?? null, c.get('logger'));
+		}
+
+		return c.json(response);
+	} catch (error) {
+		c.get('logger').error('Error in responses', { error });
+
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+		if (errorMessage.includes('Authentication failed') || errorMessage.includes('access token')) {
+			return c.json(
+				{
+					error: {
+						message: 'Authentication failed with Qwen. Please check your OAuth credentials.',
+						type: 'authentication_error'
+					}
+				},
+				401
+			);
+		}
+
+		if (errorMessage.includes('quota') || errorMessage.includes('rate limit') || errorMessage.includes('429')) {
+			return c.json(
+				{
+					error: {
+						message: 'Quota exceeded or rate limited. Please try again later.',
+						type: 'rate_limit_error'
+					}
+				},
+				429
+			);
+		}
+
+		if (errorMessage.includes('timed out')) {
+			return c.json(
+				{
+					error: {
+						message: errorMessage,
+						type: 'timeout_error'
+					}
+				},
+				504
+			);
+		}
+
+		return c.json(
+			{
+				error: {
+					message: errorMessage,
+					type: 'internal_server_error'
+				}
+			},
+			500
+		);
+	}
+});
+
+// Retrieve a stored response
+ResponsesRoute.get('/responses/:responseId', async (c) => {
+	const responseId = c.req.param('responseId');
+	const stored = await loadStoredResponse(c.env, responseId, c.get('apiKey')?.id ?? null);
+
+	if (!stored) {
+		return c.json(
+			{
+				error: {
+					message: `Response with id '${responseId}' not found.`,
+					type: 'invalid_request_error'
+				}
+			},
+			404
+		);
+	}
+
+	return c.json(stored.response);
+});
+
+// Delete a stored response
+ResponsesRoute.delete('/responses/:responseId', async (c) => {
+	const responseId = c.req.param('responseId');
+	if (!(await loadStoredResponse(c.env, responseId, c.get('apiKey')?.id ?? null))) {
+		return c.json(
+			{
+				error: {
+					message: `Response with id '${responseId}' not found.`,
+					type: 'invalid_request_error'
+				}
+			},
+			404
+		);
+	}
+
+	await c.env.QWEN_TOKEN_CACHE.delete(`${KV_RESPONSE_PREFIX}${responseId}`);
+
+	return c.json({ id: responseId, object: 'response', deleted: true });
+});
@@ -0,0 +1,117 @@
+import { Hono } from 'hono';
+import { Env } from '../types';
+import { LEDGER_DIMENSIONS, LedgerDimension, LedgerQuery, UsageReportRow, aggregateLedger, createUsageLedger, oldestLedgerDate, totalLedger } from '../usage-ledger';
+import { LEDGER_RETENTION_DAYS } from '../config';
+
+/**
+ * Admin usage reports from the usage ledger (mounted under /admin/usage, behind admin auth)
+ */
+export const UsageRoute = new Hono<{ Bindings: Env }>();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const COUNTER_COLUMNS = [
+	'requests',
+	'success',
+	'error',
+	'timeout',
+	'aborted',
+	'prompt_tokens',
+	'completion_tokens',
+	'total_tokens',
+	'avg_latency_ms'
+] as const;
+
+interface UsageReportParams {
+	query: LedgerQuery;
+	granularity: 'hour' | 'day';
+	groupBy: LedgerDimension[];
+	format: 'json' | 'csv';
+}
+
+/**
+ * Check the report's query parameters; returns them or an error message
+ */
+function parseReportParams(params: Record<string, string>): UsageReportParams | string {
+	const today = new Date().toISOString().split('T')[0];
+	const to = params.to || today;
+	const from = params.from || to;
+	if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || isNaN(Date.parse(from)) || isNaN(Date.parse(to))) {
+		return 'from and to must be UTC dates (YYYY-MM-DD)';
+	}
+	if (from > to) {
+		return 'from must not be after to';
+	}
+	if (from < oldestLedgerDate()) {
+		return `The ledger only keeps the last ${LEDGER_RETENTION_DAYS} days (from ${oldestLedgerDate()})`;
+	}
+
+	const granularity = params.granularity || 'day';
+	if (granularity !== 'hour' && granularity !== 'day') {
+		return 'granularity must be hour or day';
+	}
+
+	const groupBy = (params.group_by || '').split(',').map(part => part.trim()).filter(Boolean);
+	const unknown = groupBy.find(dimension => !LEDGER_DIMENSIONS.includes(dimension as LedgerDimension));
+	if (unknown) {
+		return `Unknown group_by dimension '${unknown}' (expected key, account or model)`;
+	}
+
+	const format = params.format || 'json';
+	if (format !== 'json' && format !== 'csv') {
+		return 'format must be json or csv';
+	}
+
+	return {
+		query: {
+			from,
+			to,
+			...(params.key && { key: params.key }),
+			...(params.account && { account: params.account }),
+			...(params.model && { model: params.model })
+		},
+		granularity,
+		groupBy: LEDGER_DIMENSIONS.filter(dimension => groupBy.includes(dimension)),
+		format
+	};
+}
+
+function csvField(value: string | number | undefined): string {
+	const text = String(value ?? '');
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: UsageReportRow[], groupBy: LedgerDimension[]): string {
+	const columns = ['period', ...groupBy, ...COUNTER_COLUMNS] as (keyof UsageReportRow)[];
+	const lines = [columns.join(','), ...rows.map(row => columns.map(column => csvField(row[column])).join(','))];
+	return `${lines.join('\r\n')}\r\n`;
+}
+
+// Daily or hourly aggregates (?from=&to=&granularity=hour|day&group_by=key,account,model&key=&account=&model=&format=json|csv)
+UsageRoute.get('/', async (c) => {
+	const params = parseReportParams(c.req.query());
+	if (typeof params === 'string') {
+		return c.json({ error: params }, 400);
+	}
+
+	const buckets = await createUsageLedger(c.env).query(params.query);
+	const rows = aggregateLedger(buckets, params.granularity, params.groupBy);
+
+	if (params.format === 'csv') {
+		return c.body(toCsv(rows, params.groupBy), 200, {
+			'Content-Type': 'text/csv; charset=utf-8',
+			'Content-Disposition': `attachment; filename="usage-${params.query.from}-${params.query.to}.csv"`
+		});
+	}
+
+	const { from, to, ...filters } = params.query;
+	return c.json({
+		from,
+		to,
+		granularity: params.granularity,
+		groupBy: params.groupBy,
+		filters,
+		totals: totalLedger(buckets),
+		rows
+	});
+});
@@ -0,0 +1,102 @@
+import { Env } from './types';
+import { MultiAccountAuthManager, AccountSummary, TokenRefreshResult, CredentialMigrationResult } from './multi-auth';
+import { createLogger } from './logger';
+import { PROACTIVE_REFRESH_WINDOW_MS, KV_HEALTH_SNAPSHOT_KEY, KV_LAST_DAILY_RESET_KEY } from './config';
+
+/**
+ * Cron-triggered maintenance for the account pool:
+ * refreshes tokens before they expire, runs the UTC-day reset once per day,
+ * rewrites stored credentials that are unindexed or not on the active encryption key, and records a health snapshot (served at /admin/health/snapshot).
+ */
+
+export interface HealthSnapshot {
+	timestamp: string;
+	cron: string;
+	duration_ms: number;
+	daily_reset: { date: string; readmitted: string[] } | null; // Set on the run that performed today's reset
+	refreshes: TokenRefreshResult[];
+	revoked_accounts: string[]; // Refresh token rejected; the account needs to be re-authenticated
+	credential_migrations: CredentialMigrationResult[]; // Accounts indexed, encrypted or moved to the active key this run
+	summary: {
+		total_accounts: number;
+		cooling_down: number;
+		expired_tokens: number;
+		requests_today: number;
+		remaining_requests_today: number;
+	};
+	accounts: AccountSummary[];
+}
+
+/**
+ * Run the UTC-day reset if it hasn't run today yet
+ */
+async function runDailyReset(env: Env, authManager: MultiAccountAuthManager): Promise<HealthSnapshot['daily_reset']> {
+	const today = new Date().toISOString().split('T')[0];
+	const lastReset = await env.QWEN_TOKEN_CACHE.get(KV_LAST_DAILY_RESET_KEY);
+	if (lastReset === today) {
+		return null;
+	}
+
+	authManager.logger.info('New UTC day detected, running daily reset', { date: today });
+	const readmitted = await authManager.resetDailyState();
+	await env.QWEN_TOKEN_CACHE.put(KV_LAST_DAILY_RESET_KEY, today);
+	authManager.logger.info('Daily reset complete', { date: today, readmitted });
+
+	return { date: today, readmitted };
+}
+
+export async function handleScheduled(controller: ScheduledController, env: Env): Promise<void> {
+	const startedAt = Date.now();
+	const logger = createLogger(env, { job: 'scheduled', cron: controller.cron });
+	logger.info('Scheduled maintenance started');
+
+	try {
+		const authManager = new MultiAccountAuthManager(env, logger);
+
+		const refreshes = await authManager.refreshExpiringTokens(PROACTIVE_REFRESH_WINDOW_MS);
+		const dailyReset = await runDailyReset(env, authManager);
+		const credentialMigrations = await authManager.migrateStoredCredentials();
+		const accounts = await authManager.getAccountSummaries();
+
+		const revokedAccounts = refreshes.filter(result => result.status === 'revoked').map(result => result.accountId);
+		if (revokedAccounts.length > 0) {
+			logger.error('Refresh tokens revoked, re-authenticate these accounts and upload new credentials', { accounts: revokedAccounts });
+		}
+
+		const failedRefreshes = refreshes.filter(result => result.status === 'failed');
+		for (const result of failedRefreshes) {
+			logger.error('Proactive refresh failed', { account: result.accountId, error: result.error });
+		}
+
+		const snapshot: HealthSnapshot = {
+			timestamp: new Date().toISOString(),
+			cron: controller.cron,
+			duration_ms: Date.now() - startedAt,
+			daily_reset: dailyReset,
+			refreshes,
+			revoked_accounts: revokedAccounts,
+			credential_migrations: credentialMigrations,
+			summary: {
+				total_accounts: accounts.length,
+				cooling_down: accounts.filter(a => a.isFailed).length,
+				expired_tokens: accounts.filter(a => a.expiresIn === 'expired').length,
+				requests_today: accounts.reduce((sum, a) => sum + a.requestsToday, 0),
+				remaining_requests_today: accounts.reduce((sum, a) => sum + a.remainingRequests, 0)
+			},
+			accounts
+		};
+
+		await env.QWEN_TOKEN_CACHE.put(KV_HEALTH_SNAPSHOT_KEY, JSON.stringify(snapshot));
+
+		const refreshed = refreshes.length - failedRefreshes.length - revokedAccounts.length;
+		logger.info('Scheduled maintenance finished', {
+			duration_ms: snapshot.duration_ms,
+			refreshed,
+			failed: failedRefreshes.length,
+			revoked: revokedAccounts.length
+		});
+	} catch (error) {
+		logger.error('Scheduled maintenance failed', { error });
+		throw error;
+	}
+}
@@ -0,0 +1,189 @@
+import type { AccountUsage } from './multi-auth';
+import type { PoolStore } from './pool-store';
+import type { Logger } from './logger';
+
+/**
+ * Account selection strategies for the multi-account pool.
+ * A strategy picks one account from the candidates that are not failed and still have quota.
+ */
+
+export interface AccountCandidate {
+	accountId: string;
+	minutesLeft: number; // Minutes until the access token expires, from the account index (negative when expired)
+	usage: AccountUsage;
+	priority: number; // Configured weight, defaults to 1
+}
+
+export interface AccountSelectionStrategy {
+	readonly name: SelectionStrategyName;
+	select(candidates: AccountCandidate[]): Promise<AccountCandidate | null>;
+}
+
+export type SelectionStrategyName = 'freshness' | 'round-robin' | 'least-used' | 'weighted';
+
+export const SELECTION_STRATEGIES: SelectionStrategyName[] = ['freshness', 'round-robin', 'least-used', 'weighted'];
+
+/**
+ * Pick an index with probability proportional to its weight
+ */
+function pickWeighted<T>(items: T[], weights: number[], random: () => number): T | null {
+	const total = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+	if (items.length === 0) {
+		return null;
+	}
+	if (total <= 0) {
+		return items[0];
+	}
+
+	let threshold = random() * total;
+	for (let i = 0; i < items.length; i++) {
+		threshold -= Math.max(0, weights[i]);
+		if (threshold < 0) {
+			return items[i];
+		}
+	}
+	return items[items.length - 1];
+}
+
+/**
+ * Weighted random pick favoring accounts with the freshest tokens.
+ * Expired tokens keep a small weight so they get proactively refreshed.
+ */
+export class FreshnessStrategy implements AccountSelectionStrategy {
+	readonly name = 'freshness';
+
+	constructor(private random: () => number = Math.random) {}
+
+	async select(candidates: AccountCandidate[]): Promise<AccountCandidate | null> {
+		const maxFreshness = Math.max(...candidates.map(candidate => candidate.minutesLeft));
+
+		const weights = candidates.map(({ minutesLeft }) => {
+			if (minutesLeft < 0) return 0.1;
+			if (minutesLeft === maxFreshness) return 0.85;
+			if (minutesLeft > 30) return 0.7;
+			if (minutesLeft > 20) return 0.5;
+			if (minutesLeft > 10) return 0.3;
+			if (minutesLeft > 5) return 0.1;
+			return 0.05;
+		});
+
+		return pickWeighted(candidates, weights, this.random);
+	}
+}
+
+/**
+ * Cycle through accounts in ID order using a cursor shared through the pool store
+ */
+export class RoundRobinStrategy implements AccountSelectionStrategy {
+	readonly name = 'round-robin';
+
+	constructor(private store: Pick<PoolStore, 'nextRoundRobinCursor'>) {}
+
+	async select(candidates: AccountCandidate[]): Promise<AccountCandidate | null> {
+		if (candidates.length === 0) {
+			return null;
+		}
+
+		const ordered = [...candidates].sort((a, b) => a.accountId.localeCompare(b.accountId));
+		const cursor = await this.store.nextRoundRobinCursor();
+		return ordered[cursor % ordered.length];
+	}
+}
+
+/**
+ * Pick the account with the fewest requests today; ties go to the fresher token, then the ID
+ */
+export class LeastUsedStrategy implements AccountSelectionStrategy {
+	readonly name = 'least-used';
+
+	async select(candidates: AccountCandidate[]): Promise<AccountCandidate | null> {
+		const ordered = [...candidates].sort((a, b) =>
+			a.usage.requests - b.usage.requests ||
+			b.minutesLeft - a.minutesLeft ||
+			a.accountId.localeCompare(b.accountId)
+		);
+		return ordered[0] ?? null;
+	}
+}
+
+/**
+ * Weighted random pick by configured account priority
+ */
+export class WeightedPriorityStrategy implements AccountSelectionStrategy {
+	readonly name = 'weighted';
+
+	constructor(private random: () => number = Math.random) {}
+
+	async select(candidates: AccountCandidate[]): Promise<AccountCandidate | null> {
+		return pickWeighted(candidates, candidates.map(candidate => candidate.priority), this.random);
+	}
+}
+
+/**
+ * Create a strategy by name, falling back to freshness for unknown names
+ */
+export function createSelectionStrategy(
+	name: string | null | undefined,
+	store: PoolStore,
+	logger: Logger,
+	random: () => number = Math.random
+): AccountSelectionStrategy {
+	switch (name) {
+		case 'round-robin':
+			return new RoundRobinStrategy(store);
+		case 'least-used':
+			return new LeastUsedStrategy();
+		case 'weighted':
+			return new WeightedPriorityStrategy(random);
+		case 'freshness':
+		case undefined:
+		case null:
+		case '':
+			return new FreshnessStrategy(random);
+		default:
+			logger.warn('Unknown account selection strategy, using freshness', { strategy: name });
+			return new FreshnessStrategy(random);
+	}
+}
+
+/**
+ * Parse account priorities from "account1:3,account2:1" or a JSON object.
+ * Weights must be finite numbers >= 0; other entries are skipped (the account keeps weight 1).
+ */
+export function parseAccountPriorities(raw: string | null | undefined, logger: Logger): Record<string, number> {
+	if (!raw) {
+		return {};
+	}
+
+	let entries: [string, unknown][];
+	const trimmed = raw.trim();
+	if (trimmed.startsWith('{')) {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(trimmed);
+		} catch (error) {
+			logger.error('Invalid account priorities JSON', { error });
+			return {};
+		}
+		if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+			logger.error('Account priorities JSON must be an object of account weights');
+			return {};
+		}
+		entries = Object.entries(parsed);
+	} else {
+		entries = trimmed.split(',').filter(entry => entry.trim()).map(entry => {
+			const [accountId, weight = ''] = entry.split(':').map(part => part.trim());
+			return [accountId, weight === '' ? NaN : Number(weight)];
+		});
+	}
+
+	const priorities: Record<string, number> = {};
+	for (const [accountId, weight] of entries) {
+		if (!accountId || typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+			logger.warn('Ignoring invalid account priority (weights must be numbers >= 0)', { account: accountId, weight });
+			continue;
+		}
+		priorities[accountId] = weight;
+	}
+	return priorities;
+}
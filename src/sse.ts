@@ -0,0 +1,178 @@
+/**
+ * Server-Sent Events decoder following the WHATWG EventSource parsing rules.
+ * Handles CRLF/CR/LF line endings, comments, multi-line data fields, `field:value`
+ * without a space, and the `event`, `id` and `retry` fields.
+ */
+
+export interface SSEEvent {
+	event: string; // Defaults to 'message'
+	data: string;
+	id?: string;
+	retry?: number;
+}
+
+export class SSEDecoder {
+	private buffer = '';
+	private dataLines: string[] = [];
+	private eventType = '';
+	private lastEventId: string | undefined;
+	private retry: number | undefined;
+	private firstChunk = true;
+	private pendingCR = false;
+
+	/**
+	 * Feed decoded text and return every event completed by it
+	 */
+	public decode(text: string): SSEEvent[] {
+		if (this.firstChunk && text.length > 0) {
+			// Strip a leading byte order mark
+			if (text.charCodeAt(0) === 0xfeff) {
+				text = text.slice(1);
+			}
+			this.firstChunk = false;
+		}
+
+		// A CR at the end of the previous chunk may be the first half of a CRLF
+		if (this.pendingCR && text.startsWith('\n')) {
+			text = text.slice(1);
+		}
+		this.pendingCR = false;
+
+		this.buffer += text;
+		const events: SSEEvent[] = [];
+
+		let start = 0;
+		for (let i = 0; i < this.buffer.length; i++) {
+			const char = this.buffer[i];
+			if (char !== '\n' && char !== '\r') continue;
+
+			const event = this.processLine(this.buffer.slice(start, i));
+			if (event) events.push(event);
+
+			if (char === '\r') {
+				if (i + 1 === this.buffer.length) {
+					this.pendingCR = true;
+				} else if (this.buffer[i + 1] === '\n') {
+					i++;
+				}
+			}
+			start = i + 1;
+		}
+
+		this.buffer = this.buffer.slice(start);
+		return events;
+	}
+
+	/**
+	 * Flush at end of stream. Per spec an event without a trailing blank line is discarded,
+	 * but upstreams that omit it still expect the final event to count, so dispatch it.
+	 */
+	public flush(): SSEEvent[] {
+		const events: SSEEvent[] = [];
+		if (this.buffer.length > 0) {
+			const event = this.processLine(this.buffer);
+			if (event) events.push(event);
+			this.buffer = '';
+		}
+		const event = this.dispatch();
+		if (event) events.push(event);
+		return events;
+	}
+
+	private processLine(line: string): SSEEvent | null {
+		if (line === '') {
+			return this.dispatch();
+		}
+
+		// Comment line
+		if (line.startsWith(':')) {
+			return null;
+		}
+
+		const colon = line.indexOf(':');
+		const field = colon === -1 ? line : line.slice(0, colon);
+		let value = colon === -1 ? '' : line.slice(colon + 1);
+		if (value.startsWith(' ')) {
+			value = value.slice(1);
+		}
+
+		switch (field) {
+			case 'event':
+				this.eventType = value;
+				break;
+			case 'data':
+				this.dataLines.push(value);
+				break;
+			case 'id':
+				if (!value.includes('\0')) {
+					this.lastEventId = value;
+				}
+				break;
+			case 'retry':
+				if (/^\d+$/.test(value)) {
+					this.retry = parseInt(value, 10);
+				}
+				break;
+			default:
+				// Unknown fields are ignored
+				break;
+		}
+
+		return null;
+	}
+
+	private dispatch(): SSEEvent | null {
+		if (this.dataLines.length === 0) {
+			this.eventType = '';
+			return null;
+		}
+
+		const event: SSEEvent = {
+			event: this.eventType || 'message',
+			data: this.dataLines.join('\n'),
+			...(this.lastEventId !== undefined && { id: this.lastEventId }),
+			...(this.retry !== undefined && { retry: this.retry })
+		};
+
+		this.dataLines = [];
+		this.eventType = '';
+		return event;
+	}
+}
+
+/**
+ * Read a byte stream and yield decoded SSE events.
+ * With `idleTimeoutMs`, a read that produces no bytes for that long throws.
+ */
+export async function* readSSEEvents(
+	reader: ReadableStreamDefaultReader<Uint8Array>,
+	idleTimeoutMs?: number
+): AsyncGenerator<SSEEvent> {
+	const decoder = new TextDecoder();
+	const sse = new SSEDecoder();
+
+	while (true) {
+		const { done, value } = idleTimeoutMs ? await readWithTimeout(reader, idleTimeoutMs) : await reader.read();
+		if (done) break;
+		yield* sse.decode(decoder.decode(value, { stream: true }));
+	}
+
+	yield* sse.decode(decoder.decode());
+	yield* sse.flush();
+}
+
+async function readWithTimeout(
+	reader: ReadableStreamDefaultReader<Uint8Array>,
+	timeoutMs: number
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => reject(new Error(`Upstream stream idle timeout: no data for ${timeoutMs}ms`)), timeoutMs);
+	});
+
+	try {
+		return await Promise.race([reader.read(), timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
@@ -1,11 +1,29 @@
+import type { AccountCoordinator } from './coordinator';
+
 // --- Environment Variable Typings ---
 export interface Env {
 	// Multi-account system uses KV storage
 	QWEN_TOKEN_CACHE: KVNamespace; // Cloudflare KV for storing multiple accounts
+	ACCOUNT_COORDINATOR?: DurableObjectNamespace<AccountCoordinator>; // Owns pool state when bound (falls back to KV)
 	
 	// API authentication (supports multiple keys)
 	OPENAI_API_KEYS?: string; // Comma-separated list of API keys
 	ADMIN_SECRET_KEY?: string; // Admin key for health check endpoint
+	CREDENTIALS_ENCRYPTION_KEYS?: string; // Keyring for account credentials at rest, "<keyId>:<base64 key>,..." (first key encrypts)
+	
+	// Account pool
+	ACCOUNT_DAILY_REQUEST_LIMIT?: string; // Per-account daily request limit (default 2000)
+	ACCOUNT_SELECTION_STRATEGY?: string; // freshness (default), round-robin, least-used or weighted
+	ACCOUNT_PRIORITIES?: string; // Weights for the weighted strategy, e.g. "acc1:3,acc2:1"
+
+	// Streaming behaviour
+	STREAM_FAILOVER?: string; // Set to 'false' to disable re-issuing a failed stream on another account
+	REQUEST_TIMEOUT_MS?: string; // Overall upstream request timeout (default 300000)
+	STREAM_IDLE_TIMEOUT_MS?: string; // Max silence between upstream stream chunks (default 60000)
+
+	// Logging
+	LOG_LEVEL?: string; // debug, info (default), warn or error
+	LOG_PROMPTS?: string; // Set to 'true' to log prompt and completion content instead of its size
 	
 	// Legacy support (optional)
 	OPENAI_API_KEY?: string; // Single API key (deprecated)
@@ -33,8 +51,26 @@ export interface ChatCompletionRequest {
 	top_p?: number;
 	tools?: Tool[];
 	tool_choice?: ToolChoice;
+	stop?: string | string[];
+	seed?: number;
+	presence_penalty?: number;
+	frequency_penalty?: number;
+	n?: number;
+	response_format?: ResponseFormat;
+	logprobs?: boolean;
+	top_logprobs?: number;
+	logit_bias?: Record<string, number>;
+	user?: string;
+	parallel_tool_calls?: boolean;
+	max_completion_tokens?: number;
+	stream_options?: { include_usage?: boolean };
 }
 
+export type ResponseFormat =
+	| { type: 'text' }
+	| { type: 'json_object' }
+	| { type: 'json_schema'; json_schema: { name: string; description?: string; schema?: Record<string, unknown>; strict?: boolean } };
+
 export interface ChatMessage {
 	role: 'system' | 'user' | 'assistant' | 'tool';
 	content: string | ChatContent[];
@@ -60,7 +96,7 @@ export interface Tool {
 	};
 }
 
-export type ToolChoice = 'none' | 'auto' | { type: 'function'; function: { name: string } };
+export type ToolChoice = 'none' | 'auto' | 'required' | { type: 'function'; function: { name: string } };
 
 export interface ToolCall {
 	id: string;
@@ -92,6 +128,7 @@ export interface ChatCompletionStreamChunk {
 	created: number;
 	model: string;
 	choices: ChatCompletionStreamChoice[];
+	usage?: TokenUsage | null; // Only on the final chunk when stream_options.include_usage is set
 }
 
 export interface ChatCompletionStreamChoice {
@@ -99,9 +136,20 @@ export interface ChatCompletionStreamChoice {
 	delta: {
 		role?: string;
 		content?: string;
-		tool_calls?: ToolCall[];
+		tool_calls?: ToolCallDelta[];
+	};
+	finish_reason?: 'stop' | 'length' | 'tool_calls' | 'content_filter' | null;
+}
+
+// Streamed tool calls arrive in fragments keyed by index
+export interface ToolCallDelta {
+	index: number;
+	id?: string;
+	type?: 'function';
+	function?: {
+		name?: string;
+		arguments?: string;
 	};
-	finish_reason?: 'stop' | 'length' | 'tool_calls' | 'content_filter';
 }
 
 export interface TokenUsage {
@@ -138,6 +186,8 @@ export interface TokenResponse {
 	expires_in: number;
 	refresh_token?: string;
 	scope: string;
+	resource_url?: string; // API host for this account (older responses use `endpoint`)
+	endpoint?: string;
 }
 
 // --- Internal Token Cache Types ---
@@ -156,3 +206,239 @@ export interface TokenCacheInfo {
 	message?: string;
 	error?: string;
 }
+
+// --- Anthropic Messages API Types ---
+export interface AnthropicMessagesRequest {
+	model: string;
+	messages: AnthropicMessage[];
+	system?: string | AnthropicTextBlock[];
+	max_tokens: number;
+	stream?: boolean;
+	temperature?: number;
+	top_p?: number;
+	top_k?: number;
+	stop_sequences?: string[];
+	tools?: AnthropicTool[];
+	tool_choice?: AnthropicToolChoice;
+	metadata?: { user_id?: string };
+}
+
+export interface AnthropicMessage {
+	role: 'user' | 'assistant';
+	content: string | AnthropicContentBlock[];
+}
+
+export type AnthropicContentBlock =
+	| AnthropicTextBlock
+	| AnthropicImageBlock
+	| AnthropicToolUseBlock
+	| AnthropicToolResultBlock;
+
+export interface AnthropicTextBlock {
+	type: 'text';
+	text: string;
+}
+
+export interface AnthropicImageBlock {
+	type: 'image';
+	source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string };
+}
+
+export interface AnthropicToolUseBlock {
+	type: 'tool_use';
+	id: string;
+	name: string;
+	input: Record<string, unknown>;
+}
+
+export interface AnthropicToolResultBlock {
+	type: 'tool_result';
+	tool_use_id: string;
+	content?: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+	is_error?: boolean;
+}
+
+export interface AnthropicTool {
+	name: string;
+	description?: string;
+	input_schema: Record<string, unknown>;
+}
+
+export type AnthropicToolChoice =
+	| { type: 'auto' }
+	| { type: 'any' }
+	| { type: 'none' }
+	| { type: 'tool'; name: string };
+
+export type AnthropicStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use';
+
+export interface AnthropicMessagesResponse {
+	id: string;
+	type: 'message';
+	role: 'assistant';
+	model: string;
+	content: Array<AnthropicTextBlock | AnthropicToolUseBlock>;
+	stop_reason: AnthropicStopReason | null;
+	stop_sequence: string | null;
+	usage: { input_tokens: number; output_tokens: number };
+}
+
+// --- OpenAI Responses API Types ---
+export interface ResponsesRequest {
+	model: string;
+	input: string | ResponseInputItem[];
+	instructions?: string;
+	previous_response_id?: string;
+	stream?: boolean;
+	store?: boolean;
+	temperature?: number;
+	top_p?: number;
+	max_output_tokens?: number;
+	tools?: ResponseTool[];
+	tool_choice?: 'none' | 'auto' | 'required' | { type: 'function'; name: string };
+	parallel_tool_calls?: boolean;
+	text?: { format?: { type: 'text' } | { type: 'json_object' } | { type: 'json_schema'; name: string; description?: string; schema?: Record<string, unknown>; strict?: boolean } };
+	user?: string;
+	metadata?: Record<string, string>;
+}
+
+export type ResponseInputItem =
+	| ResponseInputMessage
+	| ResponseFunctionCallItem
+	| { type: 'function_call_output'; call_id: string; output: string };
+
+export interface ResponseInputMessage {
+	type?: 'message';
+	role: 'user' | 'assistant' | 'system' | 'developer';
+	content: string | ResponseInputContent[];
+}
+
+export type ResponseInputContent =
+	| { type: 'input_text' | 'output_text'; text: string }
+	| { type: 'input_image'; image_url?: string; detail?: 'low' | 'high' | 'auto' };
+
+export interface ResponseTool {
+	type: string; // Only 'function' tools are supported upstream
+	name?: string;
+	description?: string;
+	parameters?: Record<string, unknown>;
+	strict?: boolean;
+}
+
+export interface ResponseFunctionCallItem {
+	type: 'function_call';
+	id?: string;
+	call_id: string;
+	name: string;
+	arguments: string;
+	status?: 'completed';
+}
+
+export interface ResponseOutputMessage {
+	type: 'message';
+	id: string;
+	status: 'completed' | 'incomplete';
+	role: 'assistant';
+	content: Array<{ type: 'output_text'; text: string; annotations: unknown[] }>;
+}
+
+export type ResponseOutputItem = ResponseOutputMessage | ResponseFunctionCallItem;
+
+export interface ResponseObject {
+	id: string;
+	object: 'response';
+	created_at: number;
+	status: 'in_progress' | 'completed' | 'incomplete' | 'failed';
+	model: string;
+	instructions: string | null;
+	previous_response_id: string | null;
+	output: ResponseOutputItem[];
+	incomplete_details: { reason: 'max_output_tokens' | 'content_filter' } | null;
+	error: { code: string; message: string } | null;
+	usage: { input_tokens: number; output_tokens: number; total_tokens: number } | null;
+	metadata: Record<string, string>;
+}
+
+// Stored under RESPONSE:<id> so later requests can continue the conversation
+export interface StoredResponse {
+	response: ResponseObject;
+	messages: ChatMessage[]; // Conversation history including this response's output
+	apiKeyId?: string | null; // API key record that created it; null for OPENAI_API_KEYS or an open proxy
+}
+
+// --- Legacy Completions API Types ---
+export interface CompletionRequest {
+	model: string;
+	prompt: string | string[];
+	suffix?: string;
+	echo?: boolean;
+	stream?: boolean;
+	max_tokens?: number;
+	temperature?: number;
+	top_p?: number;
+	n?: number;
+	stop?: string | string[];
+	seed?: number;
+	presence_penalty?: number;
+	frequency_penalty?: number;
+	user?: string;
+	stream_options?: { include_usage?: boolean };
+}
+
+export interface CompletionChoice {
+	text: string;
+	index: number;
+	logprobs: null;
+	finish_reason: 'stop' | 'length' | 'content_filter' | null;
+}
+
+export interface CompletionResponse {
+	id: string;
+	object: 'text_completion';
+	created: number;
+	model: string;
+	choices: CompletionChoice[];
+	usage?: TokenUsage;
+}
+
+// --- Ollama API Types ---
+export interface OllamaOptions {
+	temperature?: number;
+	top_p?: number;
+	num_predict?: number;
+	stop?: string[];
+	seed?: number;
+	presence_penalty?: number;
+	frequency_penalty?: number;
+}
+
+export interface OllamaMessage {
+	role: 'system' | 'user' | 'assistant' | 'tool';
+	content: string;
+	images?: string[]; // Base64-encoded images
+	tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }>;
+	tool_name?: string;
+}
+
+export interface OllamaChatRequest {
+	model: string;
+	messages: OllamaMessage[];
+	tools?: Tool[];
+	format?: 'json' | Record<string, unknown>;
+	options?: OllamaOptions;
+	stream?: boolean; // Defaults to true
+	keep_alive?: string | number;
+}
+
+export interface OllamaGenerateRequest {
+	model: string;
+	prompt?: string;
+	suffix?: string;
+	system?: string;
+	images?: string[];
+	format?: 'json' | Record<string, unknown>;
+	options?: OllamaOptions;
+	stream?: boolean; // Defaults to true
+	raw?: boolean;
+	keep_alive?: string | number;
+}
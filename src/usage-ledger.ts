@@ -0,0 +1,258 @@
+import { Env, TokenUsage } from './types';
+import type { AccountCoordinator } from './coordinator';
+import { UsageCounters } from './pool-store';
+import {
+	KV_LEDGER_PREFIX,
+	LEDGER_RETENTION_DAYS,
+	LEDGER_ENV_KEY_LABEL,
+	LEDGER_NO_ACCOUNT_LABEL,
+	ACCOUNT_COORDINATOR_NAME
+} from './config';
+
+/**
+ * Usage ledger: every completion's outcome, tokens and latency, rolled up per UTC hour,
+ * API key, serving account and model. Reports sum the hourly buckets into hours or days.
+ *
+ * One bucket per combination keeps storage bounded by traffic shape rather than request count;
+ * individual requests are not kept.
+ */
+
+export type CompletionOutcome = 'success' | 'error' | 'timeout' | 'aborted';
+
+export interface LedgerEntry {
+	timestamp: number; // When the request started
+	apiKeyId: string | null; // null for OPENAI_API_KEYS keys (or no key)
+	accountId: string | null; // null when no account was selected
+	model: string;
+	outcome: CompletionOutcome;
+	latencyMs: number; // Until the response (or stream) finished
+	usage: TokenUsage | null;
+}
+
+export interface LedgerCounters extends UsageCounters {
+	success: number;
+	error: number;
+	timeout: number;
+	aborted: number;
+	latency_ms: number; // Sum over all requests in the bucket
+}
+
+export interface LedgerBucket {
+	hour: string; // UTC hour, YYYY-MM-DDTHH
+	key: string;
+	account: string;
+	model: string;
+	counters: LedgerCounters;
+}
+
+export type LedgerDimension = 'key' | 'account' | 'model';
+
+export interface LedgerQuery {
+	from: string; // First UTC day, YYYY-MM-DD
+	to: string; // Last UTC day (inclusive)
+	key?: string;
+	account?: string;
+	model?: string;
+}
+
+export interface UsageReportRow extends Partial<Record<LedgerDimension, string>> {
+	period: string; // YYYY-MM-DD or YYYY-MM-DDTHH
+	requests: number;
+	success: number;
+	error: number;
+	timeout: number;
+	aborted: number;
+	prompt_tokens: number;
+	completion_tokens: number;
+	total_tokens: number;
+	avg_latency_ms: number;
+}
+
+export interface UsageLedger {
+	record(entry: LedgerEntry): Promise<void>;
+	query(query: LedgerQuery): Promise<LedgerBucket[]>; // Hourly buckets within the range that match the filters
+}
+
+export const EMPTY_LEDGER_COUNTERS: LedgerCounters = {
+	requests: 0,
+	success: 0,
+	error: 0,
+	timeout: 0,
+	aborted: 0,
+	prompt_tokens: 0,
+	completion_tokens: 0,
+	total_tokens: 0,
+	latency_ms: 0
+};
+
+export const LEDGER_DIMENSIONS: LedgerDimension[] = ['key', 'account', 'model'];
+
+// Keeps ledger keys well under KV's 512-byte key limit for arbitrary client model names
+const MAX_MODEL_LABEL_LENGTH = 100;
+
+/**
+ * Bucket a ledger entry falls into (without its counters)
+ */
+export function ledgerBucketOf(entry: LedgerEntry): Omit<LedgerBucket, 'counters'> {
+	return {
+		hour: new Date(entry.timestamp).toISOString().substring(0, 13),
+		key: entry.apiKeyId ?? LEDGER_ENV_KEY_LABEL,
+		account: entry.accountId ?? LEDGER_NO_ACCOUNT_LABEL,
+		model: entry.model.substring(0, MAX_MODEL_LABEL_LENGTH)
+	};
+}
+
+/**
+ * Storage key of a bucket: `<hour>:<key>:<account>:<model>`, each part URI-encoded so it sorts by hour
+ */
+export function ledgerBucketKey(bucket: Omit<LedgerBucket, 'counters'>): string {
+	return [bucket.hour, bucket.key, bucket.account, bucket.model].map(encodeURIComponent).join(':');
+}
+
+export function parseLedgerBucketKey(key: string, counters: LedgerCounters): LedgerBucket {
+	const [hour, apiKey, account, model] = key.split(':').map(decodeURIComponent);
+	return { hour, key: apiKey, account, model, counters };
+}
+
+export function addLedgerEntry(current: LedgerCounters, entry: LedgerEntry): LedgerCounters {
+	return {
+		...current,
+		requests: current.requests + 1,
+		[entry.outcome]: current[entry.outcome] + 1,
+		prompt_tokens: current.prompt_tokens + (entry.usage?.prompt_tokens || 0),
+		completion_tokens: current.completion_tokens + (entry.usage?.completion_tokens || 0),
+		total_tokens: current.total_tokens + (entry.usage?.total_tokens || 0),
+		latency_ms: current.latency_ms + Math.max(0, Math.round(entry.latencyMs))
+	};
+}
+
+function sumLedgerCounters(a: LedgerCounters, b: LedgerCounters): LedgerCounters {
+	const sum = { ...a };
+	for (const name of Object.keys(EMPTY_LEDGER_COUNTERS) as (keyof LedgerCounters)[]) {
+		sum[name] = a[name] + b[name];
+	}
+	return sum;
+}
+
+export function matchesLedgerQuery(bucket: Omit<LedgerBucket, 'counters'>, query: LedgerQuery): boolean {
+	const day = bucket.hour.substring(0, 10);
+	return day >= query.from && day <= query.to &&
+		LEDGER_DIMENSIONS.every(dimension => query[dimension] === undefined || query[dimension] === bucket[dimension]);
+}
+
+/**
+ * Oldest UTC day still kept in the ledger
+ */
+export function oldestLedgerDate(now: number = Date.now()): string {
+	return new Date(now - (LEDGER_RETENTION_DAYS - 1) * 86400000).toISOString().split('T')[0];
+}
+
+function reportCounters(counters: LedgerCounters): Omit<UsageReportRow, 'period' | LedgerDimension> {
+	const { latency_ms: latencyMs, ...totals } = counters;
+	return { ...totals, avg_latency_ms: counters.requests > 0 ? Math.round(latencyMs / counters.requests) : 0 };
+}
+
+/**
+ * Totals over all buckets of a report
+ */
+export function totalLedger(buckets: LedgerBucket[]): Omit<UsageReportRow, 'period' | LedgerDimension> {
+	return reportCounters(buckets.reduce((sum, bucket) => sumLedgerCounters(sum, bucket.counters), EMPTY_LEDGER_COUNTERS));
+}
+
+/**
+ * Sum hourly buckets into report rows per hour or day, split by the requested dimensions
+ */
+export function aggregateLedger(buckets: LedgerBucket[], granularity: 'hour' | 'day', groupBy: LedgerDimension[]): UsageReportRow[] {
+	const groups = new Map<string, { fields: Partial<Record<LedgerDimension, string>> & { period: string }; counters: LedgerCounters }>();
+
+	for (const bucket of buckets) {
+		const period = granularity === 'day' ? bucket.hour.substring(0, 10) : bucket.hour;
+		const fields: Partial<Record<LedgerDimension, string>> & { period: string } = { period };
+		for (const dimension of groupBy) {
+			fields[dimension] = bucket[dimension];
+		}
+
+		const groupKey = JSON.stringify(fields);
+		const group = groups.get(groupKey) ?? { fields, counters: EMPTY_LEDGER_COUNTERS };
+		group.counters = sumLedgerCounters(group.counters, bucket.counters);
+		groups.set(groupKey, group);
+	}
+
+	return [...groups.values()]
+		.map(({ fields, counters }) => ({ ...fields, ...reportCounters(counters) }))
+		.sort((a, b) =>
+			a.period.localeCompare(b.period) ||
+			LEDGER_DIMENSIONS.reduce((order, dimension) => order || (a[dimension] ?? '').localeCompare(b[dimension] ?? ''), 0)
+		);
+}
+
+/**
+ * Ledger buckets in KV, with the counters kept in list metadata so a report is list calls only.
+ * Concurrent requests in the same bucket can overwrite each other's increment.
+ */
+export class KVUsageLedger implements UsageLedger {
+	constructor(private kv: KVNamespace) {}
+
+	async record(entry: LedgerEntry): Promise<void> {
+		const name = `${KV_LEDGER_PREFIX}${ledgerBucketKey(ledgerBucketOf(entry))}`;
+		const { metadata } = await this.kv.getWithMetadata<LedgerCounters>(name);
+		const counters = addLedgerEntry({ ...EMPTY_LEDGER_COUNTERS, ...metadata }, entry);
+		await this.kv.put(name, '', { metadata: counters, expirationTtl: LEDGER_RETENTION_DAYS * 86400 });
+	}
+
+	/**
+	 * One paginated list per day in the range
+	 */
+	async query(query: LedgerQuery): Promise<LedgerBucket[]> {
+		const buckets: LedgerBucket[] = [];
+
+		for (let day = query.from; day <= query.to; day = nextDay(day)) {
+			let cursor: string | undefined;
+			do {
+				const page: KVNamespaceListResult<LedgerCounters> = await this.kv.list<LedgerCounters>({ prefix: `${KV_LEDGER_PREFIX}${day}T`, cursor });
+				for (const key of page.keys) {
+					const bucket = parseLedgerBucketKey(key.name.substring(KV_LEDGER_PREFIX.length), { ...EMPTY_LEDGER_COUNTERS, ...key.metadata });
+					if (matchesLedgerQuery(bucket, query)) {
+						buckets.push(bucket);
+					}
+				}
+				cursor = page.list_complete ? undefined : page.cursor;
+			} while (cursor);
+		}
+
+		return buckets;
+	}
+}
+
+/**
+ * Ledger buckets owned by the AccountCoordinator Durable Object, so no increment is lost
+ */
+export class CoordinatorUsageLedger implements UsageLedger {
+	private coordinator: DurableObjectStub<AccountCoordinator>;
+
+	constructor(namespace: NonNullable<Env['ACCOUNT_COORDINATOR']>) {
+		this.coordinator = namespace.get(namespace.idFromName(ACCOUNT_COORDINATOR_NAME));
+	}
+
+	async record(entry: LedgerEntry): Promise<void> {
+		await this.coordinator.recordLedgerEntry(entry);
+	}
+
+	async query(query: LedgerQuery): Promise<LedgerBucket[]> {
+		return await this.coordinator.getLedgerBuckets(query);
+	}
+}
+
+/**
+ * Use the coordinator when it is bound, falling back to plain KV like the pool store
+ */
+export function createUsageLedger(env: Env): UsageLedger {
+	if (env.ACCOUNT_COORDINATOR) {
+		return new CoordinatorUsageLedger(env.ACCOUNT_COORDINATOR);
+	}
+	return new KVUsageLedger(env.QWEN_TOKEN_CACHE);
+}
+
+function nextDay(day: string): string {
+	return new Date(Date.parse(`${day}T00:00:00Z`) + 86400000).toISOString().split('T')[0];
+}
@@ -0,0 +1,15 @@
+// Pure-JS QR encoder vendored inside qrcode-terminal (no bundled typings)
+declare module 'qrcode-terminal/vendor/QRCode' {
+	export default class QRCode {
+		constructor(typeNumber: number, errorCorrectLevel: number);
+		addData(data: string): void;
+		make(): void;
+		getModuleCount(): number;
+		isDark(row: number, col: number): boolean;
+	}
+}
+
+declare module 'qrcode-terminal/vendor/QRCode/QRErrorCorrectLevel' {
+	const QRErrorCorrectLevel: { L: number; M: number; Q: number; H: number };
+	export default QRErrorCorrectLevel;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { KV_HEALTH_SNAPSHOT_KEY } from '../src/config';
+import { Env } from '../src/types';
+import { fakeKV, request } from './helpers';
+
+const ADMIN = 'admin-secret';
+
+async function poolEnv(accountIds: string[]): Promise<Env> {
+	const kv = fakeKV();
+	for (const accountId of accountIds) {
+		const credentials = { access_token: `at-${accountId}`, refresh_token: `rt-${accountId}`, expiry_date: Date.now() + 3600 * 1000 };
+		await kv.put(`ACCOUNT:${accountId}`, JSON.stringify(credentials), { metadata: { expiry_date: credentials.expiry_date, kid: null } });
+	}
+	return { QWEN_TOKEN_CACHE: kv, ADMIN_SECRET_KEY: ADMIN, LOG_LEVEL: 'error' } as unknown as Env;
+}
+
+describe('GET /admin/accounts', () => {
+	it('pages through the account index with its cursor', async () => {
+		const env = await poolEnv(['acc1', 'acc2', 'acc3', 'acc4', 'acc5']);
+
+		const seen: string[] = [];
+		let cursor: string | null = null;
+		do {
+			const query: string = cursor ? `?limit=2&cursor=${encodeURIComponent(cursor)}` : '?limit=2';
+			const response = await request(env, 'GET', `/admin/accounts${query}`, { token: ADMIN });
+			expect(response.status).toBe(200);
+			const page = await response.json() as { accounts: { account: string }[]; cursor: string | null };
+			expect(page.accounts.length).toBeLessThanOrEqual(2);
+			seen.push(...page.accounts.map(account => account.account));
+			cursor = page.cursor;
+		} while (cursor);
+
+		expect(seen).toEqual(['acc1', 'acc2', 'acc3', 'acc4', 'acc5']);
+	});
+
+	it('rejects a limit outside 1 to 1000', async () => {
+		const env = await poolEnv(['acc1']);
+		expect((await request(env, 'GET', '/admin/accounts?limit=0', { token: ADMIN })).status).toBe(400);
+		expect((await request(env, 'GET', '/admin/accounts?limit=1001', { token: ADMIN })).status).toBe(400);
+	});
+});
+
+describe('disabling accounts', () => {
+	it('keeps one flag per account, read back by the listing', async () => {
+		const env = await poolEnv(['acc1', 'acc2', 'acc3']);
+
+		expect((await request(env, 'POST', '/admin/accounts/acc1/disable', { token: ADMIN })).status).toBe(200);
+		expect((await request(env, 'POST', '/admin/accounts/acc2/disable', { token: ADMIN })).status).toBe(200);
+		expect((await request(env, 'POST', '/admin/accounts/acc1/enable', { token: ADMIN })).status).toBe(200);
+
+		const page = await (await request(env, 'GET', '/admin/accounts', { token: ADMIN })).json() as { accounts: { account: string; disabled: boolean }[] };
+		expect(page.accounts.map(({ account, disabled }) => [account, disabled])).toEqual([['acc1', false], ['acc2', true], ['acc3', false]]);
+		expect(await env.QWEN_TOKEN_CACHE.get('DISABLED:acc2')).not.toBeNull();
+	});
+
+	it('moves the legacy DISABLED_ACCOUNTS list into per-account flags', async () => {
+		// Fresh modules, so this isolate hasn't checked for the legacy list yet
+		vi.resetModules();
+		const helpers = await import('./helpers');
+		const env = await poolEnv(['acc1', 'acc2', 'acc3']);
+		await env.QWEN_TOKEN_CACHE.put('DISABLED_ACCOUNTS', 'acc1,acc3');
+
+		const account = await (await helpers.request(env, 'GET', '/admin/accounts/acc3', { token: ADMIN })).json() as { disabled: boolean };
+		expect(account.disabled).toBe(true);
+		expect(await env.QWEN_TOKEN_CACHE.get('DISABLED_ACCOUNTS')).toBeNull();
+		expect(await env.QWEN_TOKEN_CACHE.get('DISABLED:acc1')).not.toBeNull();
+		expect(await env.QWEN_TOKEN_CACHE.get('DISABLED:acc2')).toBeNull();
+	});
+});
+
+describe('GET /metrics', () => {
+	it('builds the account gauges from the snapshot without reading per-account state', async () => {
+		const env = await poolEnv(['acc1']);
+		const takenAt = Date.now() - 60 * 1000;
+		await env.QWEN_TOKEN_CACHE.put(KV_HEALTH_SNAPSHOT_KEY, JSON.stringify({
+			timestamp: new Date(takenAt).toISOString(),
+			accounts: [{ account: 'acc1', expiresIn: '60m', expiresAt: null, isFailed: false, disabled: false, failure: null, requestsToday: 7, remainingRequests: 1993 }]
+		}));
+		const get = vi.spyOn(env.QWEN_TOKEN_CACHE, 'get');
+
+		const response = await request(env, 'GET', '/metrics', { token: ADMIN });
+		expect(response.status).toBe(200);
+		const body = await response.text();
+		expect(body).toContain('qwen_proxy_account_requests_today{account="acc1"} 7');
+		expect(body).toContain('qwen_proxy_accounts{state="healthy"} 1');
+		expect(body).toContain(`qwen_proxy_account_snapshot_timestamp_seconds ${Math.floor(takenAt / 1000)}`);
+		expect(get.mock.calls.map(([key]) => key).filter(key => /^(FAILURE|USAGE):/.test(String(key)))).toEqual([]);
+	});
+});
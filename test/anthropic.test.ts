@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import { chatResponseToAnthropic, chatStreamToAnthropic } from '../src/adapters/anthropic';
+import type { ChatCompletionResponse } from '../src/types';
+import type { Logger } from '../src/logger';
+
+function fakeLogger(): Logger {
+	return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), set: vi.fn(), child: vi.fn() } as unknown as Logger;
+}
+
+/**
+ * An upstream chat completion SSE stream made of `chunks`, followed by [DONE]
+ */
+function upstreamOf(chunks: object[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+			}
+			controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+			controller.close();
+		}
+	});
+}
+
+async function anthropicEvents(chunks: object[], stopSequences: string[] = []): Promise<Record<string, any>[]> {
+	const text = await new Response(chatStreamToAnthropic(upstreamOf(chunks), 'qwen3-coder-plus', fakeLogger(), stopSequences)).text();
+	return text.split('\n\n').filter(Boolean).map(event => JSON.parse(event.split('\ndata: ')[1]));
+}
+
+const delta = (delta: object, finishReason: string | null = null) => ({ choices: [{ index: 0, delta, finish_reason: finishReason }] });
+
+describe('chatStreamToAnthropic', () => {
+	it('sends interleaved tool call deltas as complete, sequential tool_use blocks', async () => {
+		const events = await anthropicEvents([
+			delta({ content: 'Checking both.' }),
+			delta({ tool_calls: [{ index: 0, id: 'call_a', type: 'function', function: { name: 'read', arguments: '{"path":' } }] }),
+			delta({ tool_calls: [{ index: 1, id: 'call_b', type: 'function', function: { name: 'list', arguments: '{"dir":' } }] }),
+			delta({ tool_calls: [{ index: 0, function: { arguments: '"a.ts"}' } }] }),
+			delta({ tool_calls: [{ index: 1, function: { arguments: '"src"}' } }] }),
+			delta({}, 'tool_calls')
+		]);
+
+		expect(events.map(event => [event.type, event.index])).toEqual([
+			['message_start', undefined],
+			['content_block_start', 0],
+			['content_block_delta', 0],
+			['content_block_stop', 0],
+			['content_block_start', 1],
+			['content_block_delta', 1],
+			['content_block_stop', 1],
+			['content_block_start', 2],
+			['content_block_delta', 2],
+			['content_block_stop', 2],
+			['message_delta', undefined],
+			['message_stop', undefined]
+		]);
+		expect(events[4].content_block).toEqual({ type: 'tool_use', id: 'call_a', name: 'read', input: {} });
+		expect(events[5].delta).toEqual({ type: 'input_json_delta', partial_json: '{"path":"a.ts"}' });
+		expect(events[7].content_block).toEqual({ type: 'tool_use', id: 'call_b', name: 'list', input: {} });
+		expect(events[8].delta).toEqual({ type: 'input_json_delta', partial_json: '{"dir":"src"}' });
+		expect(events[10].delta.stop_reason).toBe('tool_use');
+	});
+
+	it('keeps text in one block around tool call deltas', async () => {
+		const events = await anthropicEvents([
+			delta({ content: 'Hello' }),
+			delta({ tool_calls: [{ index: 0, id: 'call_a', type: 'function', function: { name: 'read', arguments: '{}' } }] }),
+			delta({ content: ' world' }),
+			delta({}, 'tool_calls')
+		]);
+
+		const textDeltas = events.filter(event => event.delta?.type === 'text_delta');
+		expect(textDeltas.map(event => [event.index, event.delta.text])).toEqual([[0, 'Hello'], [0, ' world']]);
+		expect(events.filter(event => event.type === 'content_block_start').map(event => event.content_block.type)).toEqual(['text', 'tool_use']);
+	});
+
+	it('stops at a stop sequence split across deltas and reports which one matched', async () => {
+		const events = await anthropicEvents([
+			delta({ content: 'one two EN' }),
+			delta({ content: 'D three' }),
+			delta({ tool_calls: [{ index: 0, id: 'call_a', type: 'function', function: { name: 'read', arguments: '{}' } }] }),
+			delta({}, 'stop'),
+			{ choices: [], usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 } }
+		], ['END', 'never']);
+
+		const text = events.filter(event => event.delta?.type === 'text_delta').map(event => event.delta.text).join('');
+		expect(text).toBe('one two ');
+		expect(events.some(event => event.content_block?.type === 'tool_use')).toBe(false);
+		const messageDelta = events.find(event => event.type === 'message_delta')!;
+		expect(messageDelta.delta).toEqual({ stop_reason: 'stop_sequence', stop_sequence: 'END' });
+		expect(messageDelta.usage).toEqual({ input_tokens: 12, output_tokens: 5 });
+	});
+
+	it('sends held-back text that turned out not to be a stop sequence', async () => {
+		const events = await anthropicEvents([delta({ content: 'almost EN' }), delta({ content: 'ough' }), delta({}, 'stop')], ['END']);
+
+		const text = events.filter(event => event.delta?.type === 'text_delta').map(event => event.delta.text).join('');
+		expect(text).toBe('almost ENough');
+		expect(events.find(event => event.type === 'message_delta')!.delta).toEqual({ stop_reason: 'end_turn', stop_sequence: null });
+	});
+});
+
+describe('chatResponseToAnthropic', () => {
+	it('cuts the text at the first stop sequence', () => {
+		const response = {
+			id: 'chatcmpl-1',
+			object: 'chat.completion',
+			created: 0,
+			model: 'qwen3-coder-plus',
+			choices: [{ index: 0, message: { role: 'assistant', content: 'a STOP b HALT c' }, finish_reason: 'stop' }],
+			usage: { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 }
+		} as ChatCompletionResponse;
+
+		const message = chatResponseToAnthropic(response, 'qwen3-coder-plus', ['HALT', 'STOP']);
+		expect(message.content).toEqual([{ type: 'text', text: 'a ' }]);
+		expect(message.stop_reason).toBe('stop_sequence');
+		expect(message.stop_sequence).toBe('STOP');
+	});
+});
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiKeyStore } from '../src/api-keys';
+import { API_KEY_PRESENCE_CACHE_MS } from '../src/config';
+import { Env } from '../src/types';
+import { fakeKV, request } from './helpers';
+
+// Move the clock past the per-isolate presence cache, which earlier tests may have filled
+let clock = Date.now();
+function expirePresenceCache(): void {
+	clock += API_KEY_PRESENCE_CACHE_MS + 1;
+	vi.setSystemTime(clock);
+}
+
+describe('API key middleware', () => {
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(clock);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('keeps requiring a key after the only key record is revoked', async () => {
+		const env = { QWEN_TOKEN_CACHE: fakeKV(), ADMIN_SECRET_KEY: 'admin-secret', LOG_LEVEL: 'error' } as unknown as Env;
+
+		const created = await request(env, 'POST', '/admin/keys', { token: 'admin-secret', body: { name: 'only key' } });
+		expect(created.status).toBe(201);
+		const { id } = await created.json() as { id: string };
+
+		const revoked = await request(env, 'DELETE', `/admin/keys/${id}`, { token: 'admin-secret' });
+		expect(revoked.status).toBe(200);
+		expect((await new ApiKeyStore(env.QWEN_TOKEN_CACHE).list())).toEqual([]);
+
+		// The answer now comes from KV, not from the cache filled when the key was created
+		expirePresenceCache();
+		expect((await request(env, 'GET', '/v1/models')).status).toBe(401);
+		expect((await request(env, 'POST', '/v1/chat/completions', { body: { messages: [{ role: 'user', content: 'hi' }] } })).status).toBe(401);
+	});
+
+	it('treats key records written without the marker as configured', async () => {
+		const kv = fakeKV();
+		await kv.put('API_KEY:0123', JSON.stringify({ id: 'key_manual', name: 'manual' }));
+		expirePresenceCache();
+
+		expect(await new ApiKeyStore(kv).isConfigured()).toBe(true);
+		await kv.delete('API_KEY:0123');
+		expirePresenceCache();
+		expect(await new ApiKeyStore(kv).isConfigured()).toBe(true);
+	});
+
+	it('neither admits nor counts Ollama model preloads and model details', async () => {
+		const env = { QWEN_TOKEN_CACHE: fakeKV(), ADMIN_SECRET_KEY: 'admin-secret', LOG_LEVEL: 'error' } as unknown as Env;
+		const created = await request(env, 'POST', '/admin/keys', { token: 'admin-secret', body: { name: 'ollama', requestsPerMinute: 1 } });
+		const { key } = await created.json() as { key: string };
+
+		for (let i = 0; i < 2; i++) {
+			expect((await request(env, 'POST', '/api/chat', { token: key, body: { model: 'qwen3-coder-plus', messages: [] } })).status).toBe(200);
+			expect((await request(env, 'POST', '/api/generate', { token: key, body: { model: 'qwen3-coder-plus' } })).status).toBe(200);
+			expect((await request(env, 'POST', '/api/show', { token: key, body: { model: 'qwen3-coder-plus' } })).status).toBe(200);
+		}
+
+		// The one request a minute is still available
+		expect(await env.QWEN_TOKEN_CACHE.list({ prefix: 'KEY_RATE:' })).toMatchObject({ keys: [] });
+	});
+});
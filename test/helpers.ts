@@ -0,0 +1,46 @@
+import worker from '../src/index';
+import { Env } from '../src/types';
+
+/**
+ * In-memory KV with the subset of the API the worker uses
+ */
+export function fakeKV(): KVNamespace {
+	const data = new Map<string, { value: string; metadata?: unknown }>();
+	const kv = {
+		async get(key: string, type?: string) {
+			const entry = data.get(key);
+			return entry ? (type === 'json' ? JSON.parse(entry.value) : entry.value) : null;
+		},
+		async put(key: string, value: string, options?: { metadata?: unknown }) {
+			data.set(key, { value, metadata: options?.metadata });
+		},
+		async delete(key: string) {
+			data.delete(key);
+		},
+		async list({ prefix = '', limit = 1000, cursor }: { prefix?: string; limit?: number; cursor?: string } = {}) {
+			// The cursor is the last key of the previous page
+			const matching = [...data.keys()].filter(name => name.startsWith(prefix) && (!cursor || name > cursor)).sort();
+			const keys = matching.slice(0, limit).map(name => ({ name, metadata: data.get(name)!.metadata }));
+			return matching.length > limit
+				? { keys, list_complete: false, cursor: keys[keys.length - 1].name, cacheStatus: null }
+				: { keys, list_complete: true, cacheStatus: null };
+		}
+	};
+	return kv as unknown as KVNamespace;
+}
+
+const ctx = { waitUntil: () => {}, passThroughOnException: () => {} } as unknown as ExecutionContext;
+
+/**
+ * Send a request through the worker's fetch handler
+ */
+export async function request(env: Env, method: string, path: string, init: { token?: string; body?: unknown } = {}): Promise<Response> {
+	return await worker.fetch(new Request(`https://proxy.test${path}`, {
+		method,
+		headers: {
+			'Content-Type': 'application/json',
+			...(init.token && { Authorization: `Bearer ${init.token}` })
+		},
+		body: init.body === undefined ? undefined : JSON.stringify(init.body)
+	}), env, ctx);
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+import { chatStreamToResponses, createResponseObject, validateResponsesInput } from '../src/adapters/responses';
+import { ApiKeyStore } from '../src/api-keys';
+import type { Logger } from '../src/logger';
+import { ChatMessage, Env, StoredResponse } from '../src/types';
+import { fakeKV, request } from './helpers';
+
+function fakeLogger(): Logger {
+	return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), set: vi.fn(), child: vi.fn() } as unknown as Logger;
+}
+
+function upstreamOf(chunks: object[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+			}
+			controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+			controller.close();
+		}
+	});
+}
+
+/**
+ * Two API key records and a response stored by the first one
+ */
+async function setup() {
+	const env = { QWEN_TOKEN_CACHE: fakeKV(), LOG_LEVEL: 'error' } as unknown as Env;
+	const store = new ApiKeyStore(env.QWEN_TOKEN_CACHE);
+	const limits = { models: null, requestsPerMinute: null, dailyRequestLimit: null, dailyTokenLimit: null };
+	const owner = await store.create({ name: 'owner', ...limits });
+	const other = await store.create({ name: 'other', ...limits });
+
+	const stored: StoredResponse = {
+		response: { ...createResponseObject({ model: 'qwen3-coder-plus', input: 'hi' }), id: 'resp_owned', status: 'completed' },
+		messages: [{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'hello' }],
+		apiKeyId: owner.record.id
+	};
+	await env.QWEN_TOKEN_CACHE.put('RESPONSE:resp_owned', JSON.stringify(stored));
+	return { env, owner: owner.apiKey, other: other.apiKey };
+}
+
+describe('stored responses', () => {
+	it('are only visible to the API key that created them', async () => {
+		const { env, owner, other } = await setup();
+
+		expect((await request(env, 'GET', '/v1/responses/resp_owned', { token: other })).status).toBe(404);
+		expect((await request(env, 'DELETE', '/v1/responses/resp_owned', { token: other })).status).toBe(404);
+		const continued = await request(env, 'POST', '/v1/responses', {
+			token: other,
+			body: { model: 'qwen3-coder-plus', input: 'and then?', previous_response_id: 'resp_owned' }
+		});
+		expect(continued.status).toBe(404);
+
+		expect((await request(env, 'GET', '/v1/responses/resp_owned', { token: owner })).status).toBe(200);
+		expect((await request(env, 'DELETE', '/v1/responses/resp_owned', { token: owner })).status).toBe(200);
+		expect(await env.QWEN_TOKEN_CACHE.get('RESPONSE:resp_owned')).toBeNull();
+	});
+
+	it('return 404 when deleting an id that does not exist', async () => {
+		const { env, owner } = await setup();
+		expect((await request(env, 'DELETE', '/v1/responses/resp_missing', { token: owner })).status).toBe(404);
+	});
+});
+
+describe('validateResponsesInput', () => {
+	it('accepts strings, string shorthand content and content parts', () => {
+		expect(validateResponsesInput('hi')).toBeNull();
+		expect(validateResponsesInput([
+			{ role: 'user', content: 'hi' },
+			{ type: 'message', role: 'user', content: [{ type: 'input_text', text: 'look' }, { type: 'input_image', image_url: 'https://example.com/a.png' }] },
+			{ type: 'function_call', call_id: 'call_1', name: 'read', arguments: '{}' },
+			{ type: 'function_call_output', call_id: 'call_1', output: 'done' }
+		])).toBeNull();
+	});
+
+	it('rejects message items without usable content', () => {
+		expect(validateResponsesInput([{ role: 'user' }])).toMatch(/input\[0\]\.content/);
+		expect(validateResponsesInput([{ role: 'user', content: [{ type: 'input_text' }] }])).toMatch(/input\[0\]\.content/);
+		expect(validateResponsesInput([{ role: 'robot', content: 'hi' }])).toMatch(/input\[0\]\.role/);
+		expect(validateResponsesInput({ role: 'user', content: 'hi' })).toMatch(/array/);
+	});
+
+	it('is enforced by the route with a 400', async () => {
+		const { env, owner } = await setup();
+		const response = await request(env, 'POST', '/v1/responses', { token: owner, body: { model: 'qwen3-coder-plus', input: [{ role: 'user' }] } });
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: { type: 'invalid_request_error', param: 'input' } });
+	});
+});
+
+describe('chatStreamToResponses', () => {
+	it('keeps a tool call name that arrives after the first delta', async () => {
+		let completed: ChatMessage | undefined;
+		const initial = createResponseObject({ model: 'qwen3-coder-plus', input: 'hi' });
+		const stream = chatStreamToResponses(upstreamOf([
+			{ choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { arguments: '' } }] }, finish_reason: null }] },
+			{ choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { name: 'read', arguments: '{"path":"a.ts"}' } }] }, finish_reason: null }] },
+			{ choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] }
+		]), initial, async (_response, message) => {
+			completed = message;
+		}, fakeLogger());
+		await new Response(stream).text();
+
+		expect(completed?.tool_calls).toEqual([{ id: 'call_1', type: 'function', function: { name: 'read', arguments: '{"path":"a.ts"}' } }]);
+	});
+});
@@ -0,0 +1,177 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+	AccountCandidate,
+	FreshnessStrategy,
+	LeastUsedStrategy,
+	RoundRobinStrategy,
+	WeightedPriorityStrategy,
+	createSelectionStrategy,
+	parseAccountPriorities
+} from '../src/selection';
+import { PoolStore } from '../src/pool-store';
+import { Logger } from '../src/logger';
+
+/**
+ * Seeded pseudo-random source (mulberry32), so weighted picks are reproducible
+ */
+function seededRandom(seed: number): () => number {
+	return () => {
+		seed = (seed + 0x6d2b79f5) | 0;
+		let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Pool store with an in-memory round-robin cursor; selection strategies use nothing else
+ */
+function fakePoolStore(): PoolStore {
+	let cursor = 0;
+	const unused = () => Promise.reject(new Error('not used by selection'));
+	return {
+		stateReadLimit: Infinity,
+		getPoolStates: unused,
+		getCredentials: unused,
+		saveCredentials: unused,
+		getFailure: unused,
+		recordFailure: unused,
+		claimProbe: unused,
+		clearFailure: unused,
+		getUsage: unused,
+		recordUsage: unused,
+		setDisabled: unused,
+		acquireRefreshLease: unused,
+		releaseRefreshLease: unused,
+		nextRoundRobinCursor: async () => cursor++,
+		removeAccount: unused
+	};
+}
+
+function fakeLogger(): Logger {
+	return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), set: vi.fn(), child: vi.fn() } as unknown as Logger;
+}
+
+function candidate(accountId: string, fields: { minutesLeft?: number; requests?: number; priority?: number } = {}): AccountCandidate {
+	const requests = fields.requests ?? 0;
+	return {
+		accountId,
+		minutesLeft: fields.minutesLeft ?? 60,
+		usage: { date: '2026-10-19', requests, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, limit: 2000, remaining: 2000 - requests },
+		priority: fields.priority ?? 1
+	};
+}
+
+/**
+ * How often each account is picked in `rounds` selections
+ */
+async function pickCounts(strategy: { select(candidates: AccountCandidate[]): Promise<AccountCandidate | null> }, candidates: AccountCandidate[], rounds: number) {
+	const counts: Record<string, number> = {};
+	for (let i = 0; i < rounds; i++) {
+		const picked = await strategy.select(candidates);
+		counts[picked!.accountId] = (counts[picked!.accountId] ?? 0) + 1;
+	}
+	return counts;
+}
+
+describe('FreshnessStrategy', () => {
+	const candidates = [candidate('fresh', { minutesLeft: 60 }), candidate('mid', { minutesLeft: 25 }), candidate('expired', { minutesLeft: -5 })];
+
+	it('picks by freshness weight (0.85 freshest, 0.5 over 20 minutes, 0.1 expired)', async () => {
+		expect((await new FreshnessStrategy(() => 0).select(candidates))?.accountId).toBe('fresh');
+		expect((await new FreshnessStrategy(() => 0.7).select(candidates))?.accountId).toBe('mid');
+		expect((await new FreshnessStrategy(() => 0.99).select(candidates))?.accountId).toBe('expired');
+	});
+
+	it('favors the freshest token over many seeded picks', async () => {
+		const counts = await pickCounts(new FreshnessStrategy(seededRandom(42)), candidates, 1000);
+		expect(counts.fresh).toBeGreaterThan(counts.mid);
+		expect(counts.mid).toBeGreaterThan(counts.expired);
+		expect(counts.expired).toBeGreaterThan(0);
+	});
+
+	it('returns null without candidates', async () => {
+		expect(await new FreshnessStrategy(seededRandom(1)).select([])).toBeNull();
+	});
+});
+
+describe('RoundRobinStrategy', () => {
+	it('cycles through accounts in ID order using the store cursor', async () => {
+		const strategy = new RoundRobinStrategy(fakePoolStore());
+		const candidates = [candidate('c'), candidate('a'), candidate('b')];
+		const picked = [];
+		for (let i = 0; i < 4; i++) {
+			picked.push((await strategy.select(candidates))?.accountId);
+		}
+		expect(picked).toEqual(['a', 'b', 'c', 'a']);
+	});
+
+	it('does not advance the cursor without candidates', async () => {
+		const store = fakePoolStore();
+		const strategy = new RoundRobinStrategy(store);
+		expect(await strategy.select([])).toBeNull();
+		expect(await store.nextRoundRobinCursor()).toBe(0);
+	});
+});
+
+describe('LeastUsedStrategy', () => {
+	it('picks the fewest requests, then the freshest token, then the lowest ID', async () => {
+		const strategy = new LeastUsedStrategy();
+		expect((await strategy.select([candidate('a', { requests: 5 }), candidate('b', { requests: 2 })]))?.accountId).toBe('b');
+		expect((await strategy.select([candidate('a', { minutesLeft: 10 }), candidate('b', { minutesLeft: 50 })]))?.accountId).toBe('b');
+		expect((await strategy.select([candidate('b'), candidate('a')]))?.accountId).toBe('a');
+	});
+});
+
+describe('WeightedPriorityStrategy', () => {
+	it('picks in proportion to priority and never picks a zero weight', async () => {
+		const candidates = [candidate('heavy', { priority: 3 }), candidate('light', { priority: 1 }), candidate('off', { priority: 0 })];
+		const counts = await pickCounts(new WeightedPriorityStrategy(seededRandom(7)), candidates, 4000);
+		expect(counts.off).toBeUndefined();
+		expect(counts.heavy / counts.light).toBeGreaterThan(2.5);
+		expect(counts.heavy / counts.light).toBeLessThan(3.5);
+	});
+
+	it('falls back to the first account when every weight is zero', async () => {
+		const candidates = [candidate('a', { priority: 0 }), candidate('b', { priority: 0 })];
+		expect((await new WeightedPriorityStrategy(seededRandom(3)).select(candidates))?.accountId).toBe('a');
+	});
+});
+
+describe('createSelectionStrategy', () => {
+	it('creates strategies by name and falls back to freshness for unknown names', () => {
+		const logger = fakeLogger();
+		expect(createSelectionStrategy('round-robin', fakePoolStore(), logger).name).toBe('round-robin');
+		expect(createSelectionStrategy('least-used', fakePoolStore(), logger).name).toBe('least-used');
+		expect(createSelectionStrategy('weighted', fakePoolStore(), logger).name).toBe('weighted');
+		expect(createSelectionStrategy(undefined, fakePoolStore(), logger).name).toBe('freshness');
+		expect(logger.warn).not.toHaveBeenCalled();
+
+		expect(createSelectionStrategy('fastest', fakePoolStore(), logger).name).toBe('freshness');
+		expect(logger.warn).toHaveBeenCalledWith('Unknown account selection strategy, using freshness', { strategy: 'fastest' });
+	});
+});
+
+describe('parseAccountPriorities', () => {
+	it('parses the colon list and JSON formats', () => {
+		const logger = fakeLogger();
+		expect(parseAccountPriorities('acc1:3, acc2:0.5', logger)).toEqual({ acc1: 3, acc2: 0.5 });
+		expect(parseAccountPriorities('{"acc1":3,"acc2":0}', logger)).toEqual({ acc1: 3, acc2: 0 });
+		expect(parseAccountPriorities(undefined, logger)).toEqual({});
+		expect(logger.warn).not.toHaveBeenCalled();
+	});
+
+	it('skips weights that are not finite numbers >= 0 and reports them', () => {
+		const logger = fakeLogger();
+		expect(parseAccountPriorities('{"acc1":"high","acc2":-1,"acc3":null,"acc4":2}', logger)).toEqual({ acc4: 2 });
+		expect(parseAccountPriorities('acc1:abc,acc2:-2,acc3,acc4:1e999,acc5:4', logger)).toEqual({ acc5: 4 });
+		expect(logger.warn).toHaveBeenCalledTimes(7);
+	});
+
+	it('reports JSON that is not an object of weights', () => {
+		const logger = fakeLogger();
+		expect(parseAccountPriorities('{"acc1":', logger)).toEqual({});
+		expect(parseAccountPriorities('{}', logger)).toEqual({});
+		expect(logger.error).toHaveBeenCalledTimes(1);
+	});
+});
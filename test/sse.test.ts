@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { SSEDecoder, SSEEvent, readSSEEvents } from '../src/sse';
+
+/**
+ * Decode `chunks` in order with one decoder, flushing at the end
+ */
+function decodeAll(chunks: string[]): SSEEvent[] {
+	const decoder = new SSEDecoder();
+	return [...chunks.flatMap(chunk => decoder.decode(chunk)), ...decoder.flush()];
+}
+
+function streamOf(chunks: string[]): ReadableStreamDefaultReader<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(encoder.encode(chunk));
+			}
+			controller.close();
+		}
+	}).getReader();
+}
+
+async function collect(events: AsyncGenerator<SSEEvent>): Promise<SSEEvent[]> {
+	const result: SSEEvent[] = [];
+	for await (const event of events) {
+		result.push(event);
+	}
+	return result;
+}
+
+describe('SSEDecoder', () => {
+	it('splits CRLF line endings across chunk boundaries', () => {
+		expect(decodeAll(['data: one\r', '\n\r', '\ndata: two\r\n\r\n'])).toEqual([
+			{ event: 'message', data: 'one' },
+			{ event: 'message', data: 'two' }
+		]);
+	});
+
+	it('treats a lone CR as a line ending, also at a chunk boundary', () => {
+		expect(decodeAll(['data: one\r', '\rdata: two\r\r'])).toEqual([
+			{ event: 'message', data: 'one' },
+			{ event: 'message', data: 'two' }
+		]);
+	});
+
+	it('joins multi-line data with newlines', () => {
+		expect(decodeAll(['data: first\ndata: second\n', 'data: third\n\n'])).toEqual([
+			{ event: 'message', data: 'first\nsecond\nthird' }
+		]);
+	});
+
+	it('ignores comment lines', () => {
+		expect(decodeAll([': keep-alive\n\n', ':comment\ndata: value\n\n'])).toEqual([
+			{ event: 'message', data: 'value' }
+		]);
+	});
+
+	it('accepts data: without a space and keeps further spaces', () => {
+		expect(decodeAll(['data:tight\n\n', 'data:  padded\n\n'])).toEqual([
+			{ event: 'message', data: 'tight' },
+			{ event: 'message', data: ' padded' }
+		]);
+	});
+
+	it('strips a leading byte order mark only from the first chunk', () => {
+		expect(decodeAll(['\uFEFFdata: a\n\n', '\uFEFFdata: b\n\n'])).toEqual([
+			{ event: 'message', data: 'a' }
+		]);
+	});
+
+	it('reads the event, id and retry fields', () => {
+		expect(decodeAll(['event: delta\nid: 7\nretry: 3000\ndata: x\n\n', 'data: y\n\n'])).toEqual([
+			{ event: 'delta', data: 'x', id: '7', retry: 3000 },
+			{ event: 'message', data: 'y', id: '7', retry: 3000 }
+		]);
+	});
+
+	it('flushes a final event without a trailing blank line', () => {
+		const decoder = new SSEDecoder();
+		expect(decoder.decode('data: done\n\ndata: [DONE]')).toEqual([{ event: 'message', data: 'done' }]);
+		expect(decoder.flush()).toEqual([{ event: 'message', data: '[DONE]' }]);
+	});
+});
+
+describe('readSSEEvents', () => {
+	it('decodes events from a byte stream, including multi-byte characters split across chunks', async () => {
+		const bytes = new TextEncoder().encode('data: héllo\n\n');
+		const reader = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(bytes.slice(0, 8));
+				controller.enqueue(bytes.slice(8));
+				controller.close();
+			}
+		}).getReader();
+
+		expect(await collect(readSSEEvents(reader))).toEqual([{ event: 'message', data: 'héllo' }]);
+	});
+
+	it('flushes the last event when the stream ends without a blank line', async () => {
+		expect(await collect(readSSEEvents(streamOf(['data: a\n\n', 'data: b'])))).toEqual([
+			{ event: 'message', data: 'a' },
+			{ event: 'message', data: 'b' }
+		]);
+	});
+
+	it('throws when no data arrives within the idle timeout', async () => {
+		const encoder = new TextEncoder();
+		const reader = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(encoder.encode('data: first\n\n'));
+				// Never closes
+			}
+		}).getReader();
+
+		const events = readSSEEvents(reader, 50);
+		expect((await events.next()).value).toEqual({ event: 'message', data: 'first' });
+		await expect(events.next()).rejects.toThrow('Upstream stream idle timeout: no data for 50ms');
+	});
+});
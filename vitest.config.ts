@@ -0,0 +1,11 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			// The Durable Object base class only exists in the Workers runtime
+			'cloudflare:workers': fileURLToPath(new URL('./bench/cloudflare-workers.ts', import.meta.url))
+		}
+	}
+});